@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Highlighter, Loader2, X } from "lucide-react";
+import type { PdfTextSelection } from "@/src/components/pdf-viewer";
+import { ANNOTATION_COLORS, ANNOTATION_COLOR_HEX } from "@/src/shared/utils";
+import type { AnnotationColor } from "@/src/shared/utils";
+
+// ---------- Types ----------
+
+interface AnnotationComposerProps {
+  /** The text just selected in the viewer */
+  selection: PdfTextSelection;
+  onSave: (color: AnnotationColor, note: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+// ---------- Config ----------
+
+const POPOVER_WIDTH = 260;
+/** Gap between the selection and the popover */
+const POPOVER_OFFSET = 8;
+
+// ---------- Component ----------
+
+/**
+ * Popover shown under a text selection in the viewer: pick a color,
+ * optionally write a note, and save the highlight.
+ */
+export default function AnnotationComposer({
+  selection,
+  onSave,
+  onCancel,
+}: AnnotationComposerProps) {
+  const [color, setColor] = useState<AnnotationColor>("yellow");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancel();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onCancel]);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave(color, note);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Keep the popover on screen near the edges
+  const left = Math.min(
+    Math.max(selection.anchor.x - POPOVER_WIDTH / 2, POPOVER_OFFSET),
+    window.innerWidth - POPOVER_WIDTH - POPOVER_OFFSET
+  );
+
+  return (
+    <div
+      className="fixed z-50 rounded-lg border border-gray-200 bg-white p-2.5 text-left shadow-lg"
+      style={{
+        left,
+        top: selection.anchor.y + POPOVER_OFFSET,
+        width: POPOVER_WIDTH,
+      }}
+    >
+      <div className="flex items-center gap-1.5">
+        <Highlighter className="h-3.5 w-3.5 text-gray-400" />
+        {ANNOTATION_COLORS.map((c) => (
+          <button
+            key={c}
+            onClick={() => setColor(c)}
+            className={`h-4 w-4 rounded-full border-2 ${
+              c === color ? "border-gray-600" : "border-transparent"
+            }`}
+            style={{ backgroundColor: ANNOTATION_COLOR_HEX[c] }}
+            aria-label={`Highlight ${c}`}
+            title={c}
+          />
+        ))}
+        <button
+          onClick={onCancel}
+          className="ml-auto rounded p-0.5 text-gray-400 hover:text-gray-600"
+          aria-label="Cancel"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) save();
+        }}
+        rows={2}
+        placeholder="Add a note (optional)"
+        className="mt-2 w-full resize-none rounded-md border border-gray-200 px-2 py-1.5 text-xs text-gray-900 outline-none focus:border-blue-300 focus:ring-1 focus:ring-blue-300"
+      />
+      <div className="mt-1.5 flex justify-end">
+        <button
+          onClick={save}
+          disabled={saving}
+          className="inline-flex items-center gap-1 rounded bg-blue-600 px-2.5 py-1 text-[11px] font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving && <Loader2 className="h-3 w-3 animate-spin" />}
+          Highlight
+        </button>
+      </div>
+    </div>
+  );
+}
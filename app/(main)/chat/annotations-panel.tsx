@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Highlighter, Loader2, StickyNote, Trash2 } from "lucide-react";
+import type { Annotation } from "@/src/services/annotations";
+import { ANNOTATION_COLORS, ANNOTATION_COLOR_HEX } from "@/src/shared/utils";
+import type { AnnotationColor } from "@/src/shared/utils";
+
+// ---------- Types ----------
+
+interface AnnotationsPanelProps {
+  annotations: Annotation[];
+  loading: boolean;
+  /** Annotation selected in the viewer, scrolled into view in the list */
+  activeId: string | null;
+  /** Jump the PDF viewer to an annotation */
+  onSelect: (annotation: Annotation) => void;
+  onUpdate: (
+    id: string,
+    changes: { color?: AnnotationColor; note?: string | null }
+  ) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+// ---------- Component ----------
+
+export default function AnnotationsPanel({
+  annotations,
+  loading,
+  activeId,
+  onSelect,
+  onUpdate,
+  onDelete,
+}: AnnotationsPanelProps) {
+  /** Annotation whose note is being edited, and the draft text */
+  const [editing, setEditing] = useState<{ id: string; draft: string } | null>(
+    null
+  );
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!activeId) return;
+    document
+      .querySelector(`[data-annotation-item="${activeId}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [activeId]);
+
+  const saveNote = async () => {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      await onUpdate(editing.id, { note: editing.draft });
+      setEditing(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (annotations.length === 0) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center px-6 text-center">
+        <Highlighter className="mb-2 h-8 w-8 text-gray-300" />
+        <p className="text-xs text-gray-500">No highlights yet.</p>
+        <p className="mt-1 text-[11px] text-gray-400">
+          Select text in the document to highlight it or add a note.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 space-y-2 overflow-y-auto px-4 py-3">
+      {annotations.map((annotation) => {
+        const isActive = annotation.id === activeId;
+        const isEditing = editing?.id === annotation.id;
+        return (
+          <div
+            key={annotation.id}
+            data-annotation-item={annotation.id}
+            className={`group rounded-lg border border-l-4 bg-white px-3 py-2.5 transition-colors ${
+              isActive ? "border-blue-300 bg-blue-50/40" : "border-gray-200"
+            }`}
+            style={{ borderLeftColor: ANNOTATION_COLOR_HEX[annotation.color] }}
+          >
+            <div className="flex items-center gap-1.5">
+              <button
+                onClick={() => onSelect(annotation)}
+                className="text-[11px] font-medium text-blue-600 hover:underline"
+              >
+                Page {annotation.page}
+              </button>
+              <div className="ml-auto flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+                {ANNOTATION_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    onClick={() => onUpdate(annotation.id, { color })}
+                    className={`h-3 w-3 rounded-full border ${
+                      color === annotation.color
+                        ? "border-gray-500"
+                        : "border-transparent"
+                    }`}
+                    style={{ backgroundColor: ANNOTATION_COLOR_HEX[color] }}
+                    aria-label={`Change color to ${color}`}
+                    title={color}
+                  />
+                ))}
+                <button
+                  onClick={() => onDelete(annotation.id)}
+                  className="ml-1 rounded p-0.5 text-gray-400 hover:text-red-600"
+                  aria-label="Delete highlight"
+                  title="Delete"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            </div>
+
+            <button
+              onClick={() => onSelect(annotation)}
+              className="mt-1 block text-left text-xs italic leading-relaxed text-gray-600"
+            >
+              <span className="line-clamp-3">&ldquo;{annotation.text}&rdquo;</span>
+            </button>
+
+            {isEditing ? (
+              <div className="mt-2">
+                <textarea
+                  value={editing.draft}
+                  onChange={(e) =>
+                    setEditing({ id: annotation.id, draft: e.target.value })
+                  }
+                  onKeyDown={(e) => {
+                    if (e.key === "Escape") setEditing(null);
+                    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) saveNote();
+                  }}
+                  rows={3}
+                  autoFocus
+                  placeholder="Write a note..."
+                  className="w-full resize-none rounded-md border border-gray-200 px-2 py-1.5 text-xs text-gray-900 outline-none focus:border-blue-300 focus:ring-1 focus:ring-blue-300"
+                />
+                <div className="mt-1 flex justify-end gap-1.5">
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="rounded px-2 py-0.5 text-[11px] text-gray-500 hover:bg-gray-100"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={saveNote}
+                    disabled={saving}
+                    className="rounded bg-blue-600 px-2 py-0.5 text-[11px] font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : annotation.note ? (
+              <button
+                onClick={() =>
+                  setEditing({ id: annotation.id, draft: annotation.note ?? "" })
+                }
+                className="mt-1.5 flex w-full items-start gap-1.5 rounded-md bg-gray-50 px-2 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-100"
+                title="Edit note"
+              >
+                <StickyNote className="mt-0.5 h-3 w-3 shrink-0 text-gray-400" />
+                <span className="whitespace-pre-wrap">{annotation.note}</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => setEditing({ id: annotation.id, draft: "" })}
+                className="mt-1 text-[11px] text-gray-400 hover:text-gray-600"
+              >
+                + Add note
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,504 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Loader2,
+  MessageSquare,
+  SendHorizontal,
+  BookOpen,
+  Plus,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import { postEventStream } from "@/src/shared/utils";
+import {
+  listThreads,
+  createThread,
+  renameThread,
+  setThreadDocuments,
+  deleteThread,
+  getThreadMessages,
+} from "@/src/services/threads";
+import type { ChatAnswer, ChatCitation, ChatMessage } from "@/src/services/chat";
+import type { ChatThread, StoredChatMessage } from "@/src/services/threads";
+
+// ---------- Types ----------
+
+/** A message as rendered in the panel (assistant turns carry citations) */
+interface PanelMessage extends ChatMessage {
+  id: string;
+  citations?: ChatCitation[];
+  error?: boolean;
+  /** Tokens are still arriving */
+  streaming?: boolean;
+}
+
+interface ChatPanelProps {
+  documentId: string;
+  /** Other documents questions are asked across */
+  otherDocumentIds: string[];
+  /** Replace the other documents, e.g. when a thread spanning them is opened */
+  onOtherDocumentsChange: (ids: string[]) => void;
+  /**
+   * Show a cited page, switching the viewer to its document if needed, and
+   * highlight `quote` on it
+   */
+  onOpenSource: (documentId: string, page: number, quote?: string) => void;
+}
+
+// ---------- Helpers ----------
+
+function toPanelMessage(msg: StoredChatMessage): PanelMessage {
+  return {
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    citations: msg.citations,
+  };
+}
+
+/** Every document a thread spans, starting with the one it was created from */
+function threadDocumentIds(thread: ChatThread): string[] {
+  return [thread.document_id, ...(thread.document_ids ?? [])];
+}
+
+/** Whether a message cites more than one document */
+function spansDocuments(citations: ChatCitation[]): boolean {
+  return new Set(citations.map((c) => c.documentId)).size > 1;
+}
+
+function sameDocuments(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+/**
+ * Split an answer into text runs and [n] citation markers so markers can be
+ * rendered as clickable page links.
+ */
+function renderAnswer(
+  text: string,
+  citations: ChatCitation[],
+  onOpenCitation: (citation: ChatCitation) => void
+) {
+  const byMarker = new Map(citations.map((c) => [c.marker, c]));
+  const parts = text.split(/(\[\d+\])/g);
+
+  return parts.map((part, i) => {
+    const match = /^\[(\d+)\]$/.exec(part);
+    const citation = match ? byMarker.get(Number(match[1])) : undefined;
+    if (!citation) return <span key={i}>{part}</span>;
+
+    return (
+      <button
+        key={i}
+        onClick={() => onOpenCitation(citation)}
+        className="mx-0.5 rounded bg-blue-100 px-1 text-[10px] font-semibold text-blue-700 align-super hover:bg-blue-200"
+        title={
+          citation.fileName
+            ? `${citation.fileName}, page ${citation.page_start}`
+            : `Page ${citation.page_start}`
+        }
+      >
+        {citation.marker}
+      </button>
+    );
+  });
+}
+
+// ---------- Component ----------
+
+export default function ChatPanel({
+  documentId,
+  otherDocumentIds,
+  onOtherDocumentsChange,
+  onOpenSource,
+}: ChatPanelProps) {
+  const [messages, setMessages] = useState<PanelMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [isAnswering, setIsAnswering] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Thread state — a null active thread means "new chat", created on first send
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [threadLoading, setThreadLoading] = useState(true);
+  // Lets a reload keep the open thread when the viewer switches documents
+  const activeThreadRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    activeThreadRef.current = activeThreadId;
+  }, [activeThreadId]);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    scrollRef.current?.scrollTo({
+      top: scrollRef.current.scrollHeight,
+      behavior: "smooth",
+    });
+  }, [messages, isAnswering]);
+
+  // Load threads and open the most recent one, or keep the open thread
+  // when it spans the document the viewer switched to
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const list = await listThreads(documentId);
+        if (cancelled) return;
+        setThreads(list);
+
+        const open = list.find((t) => t.id === activeThreadRef.current);
+        if (open) return;
+
+        const latest = list[0];
+        setActiveThreadId(latest?.id ?? null);
+        setMessages([]);
+        if (latest) {
+          const stored = await getThreadMessages(latest.id);
+          if (!cancelled) setMessages(stored.map(toPanelMessage));
+        }
+      } catch (err) {
+        console.error("[chat] Failed to load threads:", err);
+      } finally {
+        if (!cancelled) setThreadLoading(false);
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  const selectThread = useCallback(
+    async (threadId: string | null) => {
+      setActiveThreadId(threadId);
+      setMessages([]);
+      if (!threadId) return;
+
+      // Bring the viewer's document set in line with the thread's
+      const thread = threads.find((t) => t.id === threadId);
+      if (thread) {
+        onOtherDocumentsChange(
+          threadDocumentIds(thread).filter((id) => id !== documentId)
+        );
+      }
+
+      setThreadLoading(true);
+      try {
+        const stored = await getThreadMessages(threadId);
+        setMessages(stored.map(toPanelMessage));
+      } catch (err) {
+        console.error("[chat] Failed to load thread messages:", err);
+      } finally {
+        setThreadLoading(false);
+      }
+    },
+    [threads, documentId, onOtherDocumentsChange]
+  );
+
+  const openCitation = useCallback(
+    (citation: ChatCitation) =>
+      onOpenSource(
+        citation.documentId ?? documentId,
+        citation.page_start,
+        citation.excerpt
+      ),
+    [documentId, onOpenSource]
+  );
+
+  const handleRename = useCallback(async () => {
+    const thread = threads.find((t) => t.id === activeThreadId);
+    if (!thread) return;
+
+    const title = prompt("Rename chat", thread.title)?.trim();
+    if (!title || title === thread.title) return;
+
+    if (await renameThread(thread.id, title)) {
+      setThreads((prev) =>
+        prev.map((t) => (t.id === thread.id ? { ...t, title } : t))
+      );
+    }
+  }, [threads, activeThreadId]);
+
+  const handleDelete = useCallback(async () => {
+    if (!activeThreadId) return;
+    if (!confirm("Delete this chat? This cannot be undone.")) return;
+
+    if (await deleteThread(activeThreadId)) {
+      const remaining = threads.filter((t) => t.id !== activeThreadId);
+      setThreads(remaining);
+      selectThread(remaining[0]?.id ?? null);
+    }
+  }, [threads, activeThreadId, selectThread]);
+
+  const sendQuestion = useCallback(async () => {
+    const question = input.trim();
+    if (!question || isAnswering) return;
+
+    const history: ChatMessage[] = messages
+      .filter((m) => !m.error)
+      .map(({ role, content }) => ({ role, content }));
+
+    // Create the thread lazily on the first question of a new chat, or
+    // record a changed document set on the open one
+    let threadId = activeThreadId;
+    const documentIds = [documentId, ...otherDocumentIds];
+    if (!threadId) {
+      const thread = await createThread(documentId, undefined, otherDocumentIds);
+      if (thread) {
+        threadId = thread.id;
+        setActiveThreadId(thread.id);
+        setThreads((prev) => [thread, ...prev]);
+      }
+    } else {
+      const thread = threads.find((t) => t.id === threadId);
+      if (thread && !sameDocuments(threadDocumentIds(thread), documentIds)) {
+        const others = await setThreadDocuments(thread.id, documentIds);
+        if (others) {
+          setThreads((prev) =>
+            prev.map((t) =>
+              t.id === thread.id ? { ...t, document_ids: others } : t
+            )
+          );
+        }
+      }
+    }
+
+    const answerId = `assistant-${Date.now()}`;
+    const updateAnswer = (patch: Partial<PanelMessage>) =>
+      setMessages((prev) =>
+        prev.map((m) => (m.id === answerId ? { ...m, ...patch } : m))
+      );
+
+    setMessages((prev) => [
+      ...prev,
+      { id: `user-${Date.now()}`, role: "user", content: question },
+      { id: answerId, role: "assistant", content: "", streaming: true },
+    ]);
+    setInput("");
+    setIsAnswering(true);
+
+    try {
+      await postEventStream(
+        "/api/chat/stream",
+        { documentId, question, history, threadId, otherDocumentIds },
+        (event, data) => {
+          if (event === "token") {
+            const { text } = data as { text: string };
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === answerId ? { ...m, content: m.content + text } : m
+              )
+            );
+          } else if (event === "done") {
+            const { answer, citations } = data as ChatAnswer;
+            updateAnswer({ content: answer, citations, streaming: false });
+            // Mirror the server: bump the thread and title it from its first question
+            setThreads((prev) => {
+              const current = prev.find((t) => t.id === threadId);
+              if (!current) return prev;
+              const title =
+                current.title === "New chat" ? question.slice(0, 60) : current.title;
+              return [
+                { ...current, title, updated_at: new Date().toISOString() },
+                ...prev.filter((t) => t.id !== threadId),
+              ];
+            });
+          } else if (event === "error") {
+            throw new Error((data as { message: string }).message);
+          }
+        }
+      );
+    } catch (err) {
+      console.error("[chat] Failed to answer question:", err);
+      updateAnswer({
+        content: "Something went wrong while answering. Please try again.",
+        error: true,
+        streaming: false,
+      });
+    } finally {
+      setIsAnswering(false);
+    }
+  }, [
+    documentId,
+    otherDocumentIds,
+    input,
+    isAnswering,
+    messages,
+    threads,
+    activeThreadId,
+  ]);
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      {/* Thread switcher */}
+      <div className="flex shrink-0 items-center gap-1 border-b border-gray-100 px-4 py-2">
+        <select
+          value={activeThreadId ?? ""}
+          onChange={(e) => selectThread(e.target.value || null)}
+          disabled={isAnswering}
+          className="min-w-0 flex-1 truncate rounded-md border border-gray-200 bg-gray-50 px-2 py-1 text-xs text-gray-700 outline-none focus:border-blue-300"
+          aria-label="Chat thread"
+        >
+          {!activeThreadId && <option value="">New chat</option>}
+          {threads.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.title} · {new Date(t.updated_at).toLocaleDateString()}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => selectThread(null)}
+          disabled={isAnswering || !activeThreadId}
+          className="rounded p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-25"
+          aria-label="New chat"
+          title="New chat"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </button>
+        <button
+          onClick={handleRename}
+          disabled={isAnswering || !activeThreadId}
+          className="rounded p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-25"
+          aria-label="Rename chat"
+          title="Rename"
+        >
+          <Pencil className="h-3.5 w-3.5" />
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={isAnswering || !activeThreadId}
+          className="rounded p-1.5 text-gray-400 hover:bg-red-50 hover:text-red-600 disabled:opacity-25"
+          aria-label="Delete chat"
+          title="Delete"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {/* Messages */}
+      <div ref={scrollRef} className="flex-1 space-y-3 overflow-y-auto px-4 py-4">
+        {threadLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+          </div>
+        )}
+
+        {messages.length === 0 && !isAnswering && !threadLoading && (
+          <div className="py-12 text-center">
+            <MessageSquare className="mx-auto mb-3 h-8 w-8 text-gray-300" />
+            <p className="text-sm text-gray-500">
+              {otherDocumentIds.length > 0
+                ? `Ask anything across these ${otherDocumentIds.length + 1} documents.`
+                : "Ask anything about this document."}
+            </p>
+            <p className="mt-1 text-xs text-gray-400">
+              Answers cite the pages they come from.
+            </p>
+          </div>
+        )}
+
+        {messages.map((msg) =>
+          // Empty streaming answers are represented by the loader below
+          msg.content === "" ? null : msg.role === "user" ? (
+            <div key={msg.id} className="flex justify-end">
+              <p className="max-w-[85%] rounded-lg bg-blue-600 px-3 py-2 text-xs leading-relaxed text-white whitespace-pre-wrap">
+                {msg.content}
+              </p>
+            </div>
+          ) : (
+            <div
+              key={msg.id}
+              className={`rounded-lg border px-3 py-2.5 ${
+                msg.error
+                  ? "border-red-200 bg-red-50"
+                  : "border-gray-200 bg-white"
+              }`}
+              style={{ animation: "insightCardAppear 0.3s ease-out backwards" }}
+            >
+              <p
+                className={`text-xs leading-relaxed whitespace-pre-wrap ${
+                  msg.error ? "text-red-600" : "text-gray-700"
+                }`}
+              >
+                {renderAnswer(msg.content, msg.citations ?? [], openCitation)}
+                {msg.streaming && (
+                  <span className="ml-0.5 inline-block h-3 w-1 animate-pulse bg-blue-400 align-middle" />
+                )}
+              </p>
+
+              {/* Cited passages */}
+              {msg.citations && msg.citations.length > 0 && (
+                <div className="mt-2.5 space-y-1.5 border-t border-gray-100 pt-2">
+                  <p className="flex items-center gap-1 text-[10px] font-medium text-gray-400">
+                    <BookOpen className="h-3 w-3" />
+                    Sources
+                  </p>
+                  {msg.citations.map((c) => (
+                    <button
+                      key={c.marker}
+                      onClick={() => openCitation(c)}
+                      className="block w-full rounded-md border border-gray-100 bg-gray-50 px-2.5 py-1.5 text-left hover:border-blue-200"
+                    >
+                      <span className="text-[11px] font-medium text-blue-600">
+                        [{c.marker}]{" "}
+                        {spansDocuments(msg.citations!) && c.fileName && (
+                          <span className="text-gray-500">{c.fileName} · </span>
+                        )}
+                        Page {c.page_start}
+                        {c.page_end !== c.page_start && `–${c.page_end}`}
+                      </span>
+                      <span className="mt-0.5 line-clamp-2 block text-[11px] italic text-gray-500">
+                        {c.excerpt}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        )}
+
+        {isAnswering && messages[messages.length - 1]?.content === "" && (
+          <div className="flex items-center gap-2 rounded-lg border border-dashed border-blue-200 bg-blue-50/50 px-3 py-3">
+            <Loader2 className="h-4 w-4 shrink-0 animate-spin text-blue-500" />
+            <p className="text-xs text-blue-600">Reading the document...</p>
+          </div>
+        )}
+      </div>
+
+      {/* Composer */}
+      <div className="shrink-0 border-t border-gray-100 px-4 py-3">
+        <div className="relative">
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                sendQuestion();
+              }
+            }}
+            rows={2}
+            placeholder={
+              otherDocumentIds.length > 0
+                ? "Ask a question or compare the documents..."
+                : "Ask a question about this document..."
+            }
+            className="w-full resize-none rounded-md border border-gray-200 bg-gray-50 py-2 pl-3 pr-9 text-xs text-gray-900 outline-none transition-colors placeholder:text-gray-400 focus:border-blue-300 focus:bg-white focus:ring-1 focus:ring-blue-300"
+          />
+          <button
+            onClick={sendQuestion}
+            disabled={!input.trim() || isAnswering}
+            className="absolute bottom-2.5 right-2 rounded p-1 text-blue-600 hover:bg-blue-50 disabled:opacity-30"
+            aria-label="Send question"
+          >
+            <SendHorizontal className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
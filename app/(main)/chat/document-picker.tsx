@@ -0,0 +1,82 @@
+"use client";
+
+import { Files, X } from "lucide-react";
+import type { Document } from "@/src/services/documents";
+
+// ---------- Types ----------
+
+interface DocumentPickerProps {
+  /** The document open in the viewer; always part of the session */
+  documentId: string;
+  /** Ready documents the user can add */
+  documents: Document[];
+  /** Other documents the session spans */
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+}
+
+// ---------- Config ----------
+
+/** The open document plus this many others (the server caps chats at five) */
+const MAX_OTHER_DOCUMENTS = 4;
+
+// ---------- Component ----------
+
+export default function DocumentPicker({
+  documentId,
+  documents,
+  selectedIds,
+  onChange,
+}: DocumentPickerProps) {
+  const candidates = documents.filter(
+    (d) => d.id !== documentId && !selectedIds.includes(d.id)
+  );
+  const selected = selectedIds
+    .map((id) => documents.find((d) => d.id === id))
+    .filter((d): d is Document => d !== undefined);
+
+  // Nothing to compare with
+  if (candidates.length === 0 && selected.length === 0) return null;
+
+  return (
+    <div className="flex shrink-0 flex-wrap items-center gap-1.5 border-b border-gray-100 px-4 py-2">
+      <Files className="h-3.5 w-3.5 text-gray-400" />
+      <span className="text-[11px] text-gray-400">
+        {selected.length === 0 ? "Compare with" : "With"}
+      </span>
+      {selected.map((doc) => (
+        <span
+          key={doc.id}
+          className="flex max-w-40 items-center gap-0.5 rounded-full border border-blue-200 bg-blue-50 py-0.5 pl-2 pr-1 text-[11px] text-blue-700"
+          title={doc.file_name}
+        >
+          <span className="truncate">{doc.file_name}</span>
+          <button
+            onClick={() => onChange(selectedIds.filter((id) => id !== doc.id))}
+            className="rounded-full p-0.5 hover:bg-blue-100"
+            aria-label={`Remove ${doc.file_name}`}
+          >
+            <X className="h-2.5 w-2.5" />
+          </button>
+        </span>
+      ))}
+      {candidates.length > 0 && selected.length < MAX_OTHER_DOCUMENTS && (
+        <select
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onChange([...selectedIds, e.target.value]);
+          }}
+          className="max-w-40 truncate rounded-md border border-gray-200 bg-gray-50 px-1.5 py-0.5 text-[11px] text-gray-600 outline-none focus:border-blue-300"
+          aria-label="Add a document"
+        >
+          <option value="">Add document…</option>
+          {candidates.map((doc) => (
+            <option key={doc.id} value={doc.id}>
+              {doc.file_name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
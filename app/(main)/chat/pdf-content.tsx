@@ -1,7 +1,7 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
-import { useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import {
   FileText,
@@ -25,14 +25,29 @@ import {
   X,
   FileSearch,
   Download,
+  FileDown,
   Printer,
   RotateCw,
   Maximize2,
   PanelRight,
+  MessageSquare,
+  Table2,
+  AlertTriangle,
+  BadgeCheck,
+  Highlighter,
 } from "lucide-react";
 import dynamic from "next/dynamic";
-import type { ScrollMode } from "@/src/components/pdf-viewer";
-import { getDocumentDownloadUrl } from "@/src/services/documents";
+import type {
+  PdfAnnotationMark,
+  PdfHighlight,
+  PdfTextSelection,
+  ScrollMode,
+} from "@/src/components/pdf-viewer";
+import {
+  getDocumentDownloadUrl,
+  listDocuments,
+} from "@/src/services/documents";
+import type { Document } from "@/src/services/documents";
 
 const PdfViewer = dynamic(() => import("@/src/components/pdf-viewer"), {
   ssr: false,
@@ -45,11 +60,28 @@ const PdfViewer = dynamic(() => import("@/src/components/pdf-viewer"), {
 import {
   getCachedDocumentInsights,
   getInsightPlan,
-  extractGroupInsights,
   mergeAndCacheInsights,
   regenerateInsights,
 } from "@/src/services/insights";
-import { searchChunks } from "@/src/services/rag";
+import {
+  listStaleEmbeddingDocuments,
+  searchChunks,
+} from "@/src/services/rag";
+import type { ChunkSearchResult, SearchMode } from "@/src/services/rag";
+import {
+  createAnnotation,
+  deleteAnnotation,
+  listAnnotations,
+  updateAnnotation,
+} from "@/src/services/annotations";
+import type { Annotation } from "@/src/services/annotations";
+import { ANNOTATION_COLOR_HEX, postEventStream } from "@/src/shared/utils";
+import type { AnnotationColor } from "@/src/shared/utils";
+import AnnotationComposer from "./annotation-composer";
+import AnnotationsPanel from "./annotations-panel";
+import ChatPanel from "./chat-panel";
+import DocumentPicker from "./document-picker";
+import TablesPanel from "./tables-panel";
 import type {
   Insight,
   LocalSource,
@@ -58,15 +90,34 @@ import type {
 
 // ---------- Helpers ----------
 
-/** Semantic search result from the RAG pipeline */
-interface ChunkResult {
-  id: string;
-  chunk_index: number;
-  content: string;
-  page_start: number;
-  page_end: number;
-  token_count: number;
-  similarity: number;
+/** Document search result from the RAG pipeline */
+type ChunkResult = ChunkSearchResult;
+
+const SEARCH_MODES: { id: SearchMode; label: string; hint: string }[] = [
+  { id: "hybrid", label: "Hybrid", hint: "Exact terms and meaning" },
+  { id: "keyword", label: "Keyword", hint: "Exact terms only" },
+  { id: "semantic", label: "Semantic", hint: "Meaning only" },
+];
+
+type SidebarTab = "insights" | "chat" | "tables" | "annotations";
+
+/** A group of chunks whose insight extraction failed */
+interface FailedGroup {
+  documentId: string;
+  groupIndex: number;
+  message: string;
+}
+
+/** Viewer URL for a document, carrying the documents it is compared with */
+function chatUrl(
+  id: string,
+  file: string,
+  page: number,
+  otherIds: string[]
+): string {
+  const params = new URLSearchParams({ id, file, page: String(page) });
+  if (otherIds.length > 0) params.set("with", otherIds.join(","));
+  return `/chat?${params}`;
 }
 
 /** Keyframe animation for cards appearing */
@@ -132,15 +183,30 @@ function directionStyle(category: string) {
 // ---------- Component ----------
 
 export default function PdfContent() {
+  const router = useRouter();
   const searchParams = useSearchParams();
   const documentId = searchParams.get("id");
   const fileName = searchParams.get("file") ?? "document.pdf";
+  // Optional page to open at, e.g. when arriving from library search
+  const initialPage = Math.max(1, Number(searchParams.get("page")) || 1);
+  // Other documents the chat and insights span, kept in the URL so the set
+  // survives switching the viewer between them
+  const withParam = searchParams.get("with") ?? "";
+  const otherDocumentIds = useMemo(
+    () => withParam.split(",").filter((id) => id && id !== documentId),
+    [withParam, documentId]
+  );
+
+  // The user's ready documents, for the compare picker and source labels
+  const [documents, setDocuments] = useState<Document[]>([]);
 
   // PDF viewer state
-  const [currentPage, setCurrentPage] = useState(1);
+  const [currentPage, setCurrentPage] = useState(initialPage);
   const [totalPages, setTotalPages] = useState<number>(0);
   const [scale, setScale] = useState(1.0);
   const [highlightedPage, setHighlightedPage] = useState<number | null>(null);
+  // Quote or search hit marked on the page it was opened from
+  const [textHighlights, setTextHighlights] = useState<PdfHighlight[]>([]);
   const [scrollMode, setScrollMode] = useState<ScrollMode>("single");
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
   const [pdfLoading, setPdfLoading] = useState(true);
@@ -149,6 +215,7 @@ export default function PdfContent() {
   const [insights, setInsights] = useState<Insight[]>([]);
   const [insightsLoading, setInsightsLoading] = useState(true);
   const [insightsError, setInsightsError] = useState(false);
+  const [failedGroups, setFailedGroups] = useState<FailedGroup[]>([]);
   const [activeCardId, setActiveCardId] = useState<string | null>(null);
 
   // Progressive loading state
@@ -162,6 +229,7 @@ export default function PdfContent() {
   // Toolbar state
   const [rotation, setRotation] = useState<0 | 90 | 180 | 270>(0);
   const [sidebarHidden, setSidebarHidden] = useState(false);
+  const [sidebarTab, setSidebarTab] = useState<SidebarTab>("insights");
   const [pageInputValue, setPageInputValue] = useState("");
   const viewerContainerRef = useRef<HTMLDivElement>(null);
 
@@ -169,9 +237,33 @@ export default function PdfContent() {
   const [searchQuery, setSearchQuery] = useState("");
   const [chunkResults, setChunkResults] = useState<ChunkResult[]>([]);
   const [chunkSearching, setChunkSearching] = useState(false);
+  const [searchMode, setSearchMode] = useState<SearchMode>("hybrid");
   const [hasSearched, setHasSearched] = useState(false);
+  /** The document's vectors are from an older model; search is keyword-only */
+  const [embeddingStale, setEmbeddingStale] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
+  // Annotation state
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [annotationsLoading, setAnnotationsLoading] = useState(true);
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(
+    null
+  );
+  // Text just selected in the viewer, awaiting a color and note
+  const [textSelection, setTextSelection] = useState<PdfTextSelection | null>(
+    null
+  );
+
+  // Annotated export state
+  const [exporting, setExporting] = useState(false);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+
+  useEffect(() => {
+    listDocuments()
+      .then((docs) => setDocuments(docs.filter((d) => d.status === "ready")))
+      .catch((err) => console.error("Failed to load documents:", err));
+  }, []);
+
   // Load PDF signed URL from Supabase Storage
   useEffect(() => {
     if (!documentId) {
@@ -195,7 +287,24 @@ export default function PdfContent() {
     loadPdf();
   }, [documentId]);
 
-  // Progressive insight loading
+  // Load the user's annotations on the open document
+  useEffect(() => {
+    if (!documentId) return;
+    let cancelled = false;
+    listAnnotations(documentId)
+      .then((result) => {
+        if (!cancelled) setAnnotations(result);
+      })
+      .catch((err) => console.error("Failed to load annotations:", err))
+      .finally(() => {
+        if (!cancelled) setAnnotationsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  // Progressive insight loading, one document after another
   const loadInsights = useCallback(async () => {
     if (!documentId) {
       setInsightsLoading(false);
@@ -205,79 +314,123 @@ export default function PdfContent() {
     abortRef.current = false;
     setInsightsLoading(true);
     setInsightsError(false);
+    setFailedGroups([]);
     setInsights([]);
     setLoadingProgress(null);
     setIsMerging(false);
 
-    try {
-      // 1. Check cache first
-      const cached = await getCachedDocumentInsights(documentId);
-      if (cached && cached.length > 0) {
-        setInsights(cached);
-        setInsightsLoading(false);
-        return;
-      }
+    // Deduplicate by ID to guard against Strict Mode double-invocation
+    const appendInsights = (added: Insight[]) =>
+      setInsights((prev) => [
+        ...prev,
+        ...added.filter((a) => !prev.some((p) => p.id === a.id)),
+      ]);
 
-      // 2. Get the extraction plan
-      const plan = await getInsightPlan(documentId);
-      if (!plan) {
-        setInsights([]);
-        setInsightsLoading(false);
-        return;
+    // Merge & cache a document's insights in the background, replacing its
+    // unmerged cards once done
+    const mergeDocument = async (id: string, groupInsights: Insight[]) => {
+      try {
+        const merged = await mergeAndCacheInsights(id, groupInsights);
+        if (!abortRef.current) {
+          setInsights((prev) => [
+            ...prev.filter((p) => p.documentId !== id),
+            ...merged,
+          ]);
+        }
+      } catch (mergeErr) {
+        console.error("[insights] Merge failed, keeping unmerged:", mergeErr);
+        // Keep the unmerged insights — they're still useful
       }
+    };
+    const merges: Promise<void>[] = [];
+    const failures: FailedGroup[] = [];
+    let loaded = 0;
 
-      setLoadingProgress({ current: 0, total: plan.totalGroups });
+    try {
+      for (const id of [documentId, ...otherDocumentIds]) {
+        // 1. Check cache first
+        const cached = await getCachedDocumentInsights(id);
+        if (abortRef.current) return;
+        if (cached && cached.length > 0) {
+          appendInsights(cached);
+          loaded += cached.length;
+          continue;
+        }
 
-      // 3. Extract groups sequentially, appending cards as they arrive
-      const allGroupInsights: Insight[] = [];
+        // 2. Get the extraction plan
+        const plan = await getInsightPlan(id);
+        if (!plan) continue;
 
-      for (let i = 0; i < plan.totalGroups; i++) {
-        if (abortRef.current) return;
+        setLoadingProgress({ current: 0, total: plan.totalGroups });
 
-        setLoadingProgress({ current: i + 1, total: plan.totalGroups });
+        // 3. Stream groups sequentially, appending each card as soon as the
+        //    model finishes writing it. A failed group is reported and
+        //    skipped so the remaining groups still load.
+        const groupInsights: Insight[] = [];
+        let documentFailed = false;
 
-        const groupInsights = await extractGroupInsights(
-          documentId,
-          i,
-          plan.totalGroups
-        );
+        for (let i = 0; i < plan.totalGroups; i++) {
+          if (abortRef.current) return;
 
-        allGroupInsights.push(...groupInsights);
-        if (abortRef.current) return;
-        // Append incrementally so cards appear as they're extracted
-        // Deduplicate by ID to guard against Strict Mode double-invocation
-        setInsights((prev) => {
-          const existingIds = new Set(prev.map((p) => p.id));
-          const newItems = groupInsights.filter((g) => !existingIds.has(g.id));
-          return [...prev, ...newItems];
-        });
+          setLoadingProgress({ current: i + 1, total: plan.totalGroups });
+
+          try {
+            await postEventStream(
+              "/api/insights/stream",
+              { documentId: id, groupIndex: i, totalGroups: plan.totalGroups },
+              (event, data) => {
+                if (event === "error") {
+                  throw new Error((data as { message: string }).message);
+                }
+                if (event === "done") {
+                  const { partial } = data as { partial?: string };
+                  if (partial) {
+                    console.warn(`[insights] Section ${i + 1} partial:`, partial);
+                  }
+                }
+                if (event !== "insight" || abortRef.current) return;
+
+                const { insight } = data as { insight: Insight };
+                groupInsights.push(insight);
+                appendInsights([insight]);
+              }
+            );
+          } catch (groupErr) {
+            if (abortRef.current) return;
+            console.error(`[insights] Section ${i + 1} failed:`, groupErr);
+            documentFailed = true;
+            failures.push({
+              documentId: id,
+              groupIndex: i,
+              message:
+                groupErr instanceof Error
+                  ? groupErr.message
+                  : `Section ${i + 1} of ${plan.totalGroups} failed.`,
+            });
+            setFailedGroups([...failures]);
+          }
+        }
+        loaded += groupInsights.length;
+
+        // 4. Merge only if there are insights to merge. A document with
+        //    failed groups isn't merged (which would cache it incomplete),
+        //    so Retry extracts it again.
+        if (groupInsights.length > 0 && !documentFailed) {
+          setIsMerging(true);
+          merges.push(mergeDocument(id, groupInsights));
+        }
       }
 
       if (abortRef.current) return;
 
-      // 4. All groups done — initial loading complete
+      // 5. All groups done — initial loading complete while merges finish
+      if (loaded === 0 && failures.length > 0) setInsightsError(true);
       setInsightsLoading(false);
       setLoadingProgress(null);
 
-      // 5. Merge & cache in background (only if there are insights to merge)
-      if (allGroupInsights.length > 0) {
-        setIsMerging(true);
-        try {
-          const merged = await mergeAndCacheInsights(
-            documentId,
-            allGroupInsights
-          );
-          if (!abortRef.current) {
-            setInsights(merged);
-          }
-        } catch (mergeErr) {
-          console.error("[insights] Merge failed, keeping unmerged:", mergeErr);
-          // Keep the unmerged insights — they're still useful
-        } finally {
-          if (!abortRef.current) {
-            setIsMerging(false);
-          }
-        }
+      await Promise.all(merges);
+      if (!abortRef.current) {
+        setIsMerging(false);
       }
     } catch (err) {
       console.error("Failed to generate insights:", err);
@@ -287,7 +440,7 @@ export default function PdfContent() {
         setLoadingProgress(null);
       }
     }
-  }, [documentId]);
+  }, [documentId, otherDocumentIds]);
 
   useEffect(() => {
     loadInsights();
@@ -303,6 +456,144 @@ export default function PdfContent() {
     setTimeout(() => setHighlightedPage(null), 2000);
   }, []);
 
+  // Jump to a search hit, marking its text on every page it spans
+  const showChunk = useCallback(
+    (chunk: ChunkResult) => {
+      goToPage(chunk.page_start);
+      setTextHighlights(
+        Array.from(
+          { length: chunk.page_end - chunk.page_start + 1 },
+          (_, i) => ({ page: chunk.page_start + i, text: chunk.content })
+        )
+      );
+    },
+    [goToPage]
+  );
+
+  // Replace the documents compared with the open one
+  const setOtherDocuments = useCallback(
+    (ids: string[]) => {
+      if (!documentId) return;
+      router.replace(chatUrl(documentId, fileName, currentPage, ids));
+    },
+    [router, documentId, fileName, currentPage]
+  );
+
+  // Show a page of any document in the session, switching the viewer to it
+  // when it isn't the open one, and mark the quote on it
+  const openSource = useCallback(
+    (targetId: string, page: number, quote?: string) => {
+      if (!documentId || targetId === documentId) {
+        goToPage(page);
+        setTextHighlights(quote ? [{ page, text: quote }] : []);
+        return;
+      }
+      setTextHighlights([]);
+
+      const target = documents.find((d) => d.id === targetId);
+      if (!target) return;
+
+      setPdfLoading(true);
+      setCurrentPage(page);
+      router.push(
+        chatUrl(targetId, target.file_name, page, [
+          documentId,
+          ...otherDocumentIds.filter((id) => id !== targetId),
+        ])
+      );
+    },
+    [router, documentId, otherDocumentIds, documents, goToPage]
+  );
+
+  // Annotations of another document linger until the open one's load
+  const documentAnnotations = useMemo(
+    () => annotations.filter((a) => a.document_id === documentId),
+    [annotations, documentId]
+  );
+  const annotationMarks = useMemo<PdfAnnotationMark[]>(
+    () =>
+      documentAnnotations.map((a) => ({
+        id: a.id,
+        page: a.page,
+        quads: a.quads,
+        color: ANNOTATION_COLOR_HEX[a.color],
+        note: a.note,
+      })),
+    [documentAnnotations]
+  );
+
+  // Save the current selection as a highlight
+  const saveSelection = useCallback(
+    async (color: AnnotationColor, note: string) => {
+      if (!documentId || !textSelection) return;
+      const created = await createAnnotation({
+        documentId,
+        page: textSelection.page,
+        quads: textSelection.quads,
+        text: textSelection.text,
+        color,
+        note,
+      });
+      if (!created) {
+        console.error("Failed to save annotation");
+        return;
+      }
+      setAnnotations((prev) =>
+        [...prev, created].sort(
+          (a, b) =>
+            a.page - b.page || a.created_at.localeCompare(b.created_at)
+        )
+      );
+      window.getSelection()?.removeAllRanges();
+      setTextSelection(null);
+    },
+    [documentId, textSelection]
+  );
+
+  const changeAnnotation = useCallback(
+    async (
+      id: string,
+      changes: { color?: AnnotationColor; note?: string | null }
+    ) => {
+      const updated = await updateAnnotation(id, changes);
+      if (!updated) {
+        console.error("Failed to update annotation");
+        return;
+      }
+      setAnnotations((prev) => prev.map((a) => (a.id === id ? updated : a)));
+    },
+    []
+  );
+
+  const removeAnnotation = useCallback(async (id: string) => {
+    if (!(await deleteAnnotation(id))) {
+      console.error("Failed to delete annotation");
+      return;
+    }
+    setAnnotations((prev) => prev.filter((a) => a.id !== id));
+  }, []);
+
+  // Jump to an annotation from the list
+  const showAnnotation = useCallback(
+    (annotation: Annotation) => {
+      goToPage(annotation.page);
+      setActiveAnnotationId(annotation.id);
+    },
+    [goToPage]
+  );
+
+  // Clicking a highlight in the viewer opens it in the sidebar
+  const openAnnotation = useCallback((id: string) => {
+    setActiveAnnotationId(id);
+    setSidebarTab("annotations");
+    setSidebarHidden(false);
+  }, []);
+
+  const documentNames = useMemo(
+    () => new Map(documents.map((d) => [d.id, d.file_name])),
+    [documents]
+  );
+
   // Client-side insight filtering
   const filteredInsights = searchQuery.trim()
     ? insights.filter((card) => {
@@ -314,41 +605,75 @@ export default function PdfContent() {
       })
     : insights;
 
-  // Semantic search via RAG pipeline
-  const runSemanticSearch = useCallback(async () => {
-    if (!documentId || !searchQuery.trim()) return;
+  // Document search via RAG pipeline (keyword, semantic or hybrid)
+  const runDocumentSearch = useCallback(
+    async (mode: SearchMode = searchMode) => {
+      if (!documentId || !searchQuery.trim()) return;
 
-    setChunkSearching(true);
-    setHasSearched(true);
-    try {
-      const results = await searchChunks(documentId, searchQuery.trim(), 6);
-      setChunkResults(results);
-    } catch (err) {
-      console.error("Semantic search failed:", err);
-      setChunkResults([]);
-    } finally {
-      setChunkSearching(false);
-    }
-  }, [documentId, searchQuery]);
+      setChunkSearching(true);
+      setHasSearched(true);
+      try {
+        const [results, stale] = await Promise.all([
+          searchChunks(documentId, searchQuery.trim(), 6, undefined, mode),
+          mode === "keyword" ? [] : listStaleEmbeddingDocuments([documentId]),
+        ]);
+        setChunkResults(results);
+        setEmbeddingStale(stale.length > 0);
+      } catch (err) {
+        console.error("Document search failed:", err);
+        setChunkResults([]);
+      } finally {
+        setChunkSearching(false);
+      }
+    },
+    [documentId, searchQuery, searchMode]
+  );
+
+  // Hand a blob to the browser as a file download
+  const saveBlob = useCallback((blob: Blob, name: string) => {
+    const blobUrl = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = blobUrl;
+    a.download = name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(blobUrl);
+  }, []);
 
   // Download handler — fetch the signed URL as a blob and trigger a browser download
   const handleDownload = useCallback(async () => {
     if (!pdfUrl) return;
     try {
       const res = await fetch(pdfUrl);
-      const blob = await res.blob();
-      const blobUrl = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = blobUrl;
-      a.download = fileName;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(blobUrl);
+      saveBlob(await res.blob(), fileName);
     } catch (err) {
       console.error("Download failed:", err);
     }
-  }, [pdfUrl, fileName]);
+  }, [pdfUrl, fileName, saveBlob]);
+
+  // Export handler — download a copy with the user's highlights and notes
+  // written into the PDF, optionally followed by an insights appendix
+  const handleExport = useCallback(
+    async (includeInsights: boolean) => {
+      if (!documentId) return;
+      setExportMenuOpen(false);
+      setExporting(true);
+      try {
+        const res = await fetch(
+          `/api/documents/${documentId}/export${includeInsights ? "?insights=1" : ""}`
+        );
+        if (!res.ok) throw new Error(`Export failed (${res.status})`);
+        const base = fileName.replace(/\.pdf$/i, "");
+        saveBlob(await res.blob(), `${base}-annotated.pdf`);
+      } catch (err) {
+        console.error("Export failed:", err);
+      } finally {
+        setExporting(false);
+      }
+    },
+    [documentId, fileName, saveBlob]
+  );
 
   // Print handler — open the PDF in a hidden iframe and trigger print
   const handlePrint = useCallback(() => {
@@ -552,6 +877,44 @@ export default function PdfContent() {
             >
               <Download className="h-3.5 w-3.5" />
             </button>
+            <div className="relative">
+              <button
+                onClick={() => setExportMenuOpen((o) => !o)}
+                disabled={!documentId || exporting}
+                className="rounded p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-25"
+                aria-label="Export annotated PDF"
+                title="Export with highlights"
+              >
+                {exporting ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <FileDown className="h-3.5 w-3.5" />
+                )}
+              </button>
+              {exportMenuOpen && (
+                <>
+                  <div
+                    className="fixed inset-0 z-40"
+                    onClick={() => setExportMenuOpen(false)}
+                  />
+                  <div className="absolute right-0 top-full z-50 mt-1 w-48 rounded-md border border-gray-200 bg-white py-1 shadow-lg">
+                    <button
+                      onClick={() => handleExport(false)}
+                      className="block w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-50"
+                    >
+                      Highlights &amp; notes
+                    </button>
+                    <button
+                      onClick={() => handleExport(true)}
+                      disabled={insights.length === 0}
+                      className="block w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-50 disabled:cursor-default disabled:text-gray-300 disabled:hover:bg-white"
+                    >
+                      With insights appendix
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
             <button
               onClick={handlePrint}
               disabled={!pdfUrl}
@@ -573,8 +936,12 @@ export default function PdfContent() {
           </div>
         </div>
 
-        {/* PDF page area */}
-        <div ref={viewerContainerRef} className="min-h-0 flex-1 overflow-auto p-8 text-center">
+        {/* PDF page area; the selection popover is fixed in place, so scrolling closes it */}
+        <div
+          ref={viewerContainerRef}
+          onScroll={textSelection ? () => setTextSelection(null) : undefined}
+          className="min-h-0 flex-1 overflow-auto p-8 text-center"
+        >
           {pdfLoading ? (
             <div className="flex h-full items-center justify-center">
               <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
@@ -587,6 +954,11 @@ export default function PdfContent() {
               rotate={rotation}
               scrollMode={scrollMode}
               highlightedPage={highlightedPage}
+              highlights={textHighlights}
+              annotations={annotationMarks}
+              activeAnnotationId={activeAnnotationId}
+              onAnnotationClick={openAnnotation}
+              onTextSelect={setTextSelection}
               onLoadSuccess={(numPages) => setTotalPages(numPages)}
               onPageChange={(page) => setCurrentPage(page)}
               className={
@@ -601,6 +973,14 @@ export default function PdfContent() {
             </div>
           )}
         </div>
+        {textSelection && (
+          <AnnotationComposer
+            key={`${textSelection.page}:${textSelection.text}`}
+            selection={textSelection}
+            onSave={saveSelection}
+            onCancel={() => setTextSelection(null)}
+          />
+        )}
       </div>
 
       {/* ==================== RIGHT PANE: Insights Sidebar ==================== */}
@@ -631,6 +1011,60 @@ export default function PdfContent() {
           </Link>
         </div>
 
+        {/* Sidebar tabs */}
+        <div className="flex shrink-0 gap-1 border-b border-gray-100 px-4 pt-2">
+          {(
+            [
+              { id: "insights", label: "Insights", icon: Lightbulb },
+              { id: "chat", label: "Ask", icon: MessageSquare },
+              { id: "tables", label: "Tables", icon: Table2 },
+              { id: "annotations", label: "Notes", icon: Highlighter },
+            ] as const
+          ).map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setSidebarTab(tab.id)}
+              className={`-mb-px flex items-center gap-1.5 border-b-2 px-2.5 pb-2 text-xs font-medium transition-colors ${
+                sidebarTab === tab.id
+                  ? "border-blue-600 text-blue-700"
+                  : "border-transparent text-gray-400 hover:text-gray-600"
+              }`}
+            >
+              <tab.icon className="h-3.5 w-3.5" />
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {(sidebarTab === "insights" || sidebarTab === "chat") && (
+          <DocumentPicker
+            documentId={documentId}
+            documents={documents}
+            selectedIds={otherDocumentIds}
+            onChange={setOtherDocuments}
+          />
+        )}
+
+        {sidebarTab === "chat" ? (
+          <ChatPanel
+            documentId={documentId}
+            otherDocumentIds={otherDocumentIds}
+            onOtherDocumentsChange={setOtherDocuments}
+            onOpenSource={openSource}
+          />
+        ) : sidebarTab === "tables" ? (
+          <TablesPanel documentId={documentId} onGoToPage={goToPage} />
+        ) : sidebarTab === "annotations" ? (
+          <AnnotationsPanel
+            annotations={documentAnnotations}
+            loading={annotationsLoading}
+            activeId={activeAnnotationId}
+            onSelect={showAnnotation}
+            onUpdate={changeAnnotation}
+            onDelete={removeAnnotation}
+          />
+        ) : (
+        <>
         {/* Search bar */}
         <div className="shrink-0 border-b border-gray-100 px-4 py-2.5">
           <div className="relative">
@@ -642,7 +1076,7 @@ export default function PdfContent() {
               onChange={(e) => setSearchQuery(e.target.value)}
               onKeyDown={(e) => {
                 if (e.key === "Enter") {
-                  runSemanticSearch();
+                  runDocumentSearch();
                 }
               }}
               placeholder="Filter insights or search document..."
@@ -659,15 +1093,37 @@ export default function PdfContent() {
             )}
           </div>
           {searchQuery.trim() && (
-            <p className="mt-1.5 text-[10px] text-gray-400">
-              Press <kbd className="rounded border border-gray-200 bg-gray-100 px-1 py-0.5 font-mono text-[10px]">Enter</kbd> to search full document
-            </p>
+            <div className="mt-1.5 flex items-center gap-2">
+              <p className="text-[10px] text-gray-400">
+                Press <kbd className="rounded border border-gray-200 bg-gray-100 px-1 py-0.5 font-mono text-[10px]">Enter</kbd> to search full document
+              </p>
+              <div className="ml-auto flex rounded-md border border-gray-200 p-0.5">
+                {SEARCH_MODES.map((m) => (
+                  <button
+                    key={m.id}
+                    onClick={() => {
+                      setSearchMode(m.id);
+                      // Re-run an existing search in the new mode
+                      if (hasSearched) runDocumentSearch(m.id);
+                    }}
+                    title={m.hint}
+                    className={`rounded px-1.5 py-0.5 text-[10px] font-medium transition-colors ${
+                      searchMode === m.id
+                        ? "bg-indigo-50 text-indigo-600"
+                        : "text-gray-400 hover:text-gray-600"
+                    }`}
+                  >
+                    {m.label}
+                  </button>
+                ))}
+              </div>
+            </div>
           )}
         </div>
 
         {/* Cards list */}
         <div className="flex-1 space-y-3 overflow-y-auto px-4 py-4">
-          {/* Semantic search results */}
+          {/* Document search results */}
           {(chunkSearching || (hasSearched && chunkResults.length >= 0)) && (
             <div className="space-y-2">
               <p className="flex items-center gap-1.5 text-xs font-medium text-gray-500">
@@ -680,6 +1136,14 @@ export default function PdfContent() {
                 )}
               </p>
 
+              {!chunkSearching && hasSearched && embeddingStale && (
+                <p className="flex items-start gap-1.5 text-[11px] leading-snug text-amber-700">
+                  <AlertTriangle className="mt-px h-3 w-3 shrink-0 text-amber-500" />
+                  This document is being re-indexed for a new search model,
+                  so only keyword matches are shown for now.
+                </p>
+              )}
+
               {chunkSearching ? (
                 <div className="flex items-center gap-2 rounded-lg border border-dashed border-indigo-200 bg-indigo-50/50 px-3 py-3">
                   <Loader2 className="h-4 w-4 shrink-0 animate-spin text-indigo-500" />
@@ -705,7 +1169,7 @@ export default function PdfContent() {
                   >
                     <div className="flex items-center justify-between">
                       <button
-                        onClick={() => goToPage(chunk.page_start)}
+                        onClick={() => showChunk(chunk)}
                         className="text-xs font-medium text-indigo-600 hover:underline"
                       >
                         Pages {chunk.page_start}
@@ -713,7 +1177,9 @@ export default function PdfContent() {
                           `–${chunk.page_end}`}
                       </button>
                       <span className="rounded bg-indigo-100 px-1.5 py-0.5 text-[10px] font-medium text-indigo-500 tabular-nums">
-                        {Math.round(chunk.similarity * 100)}% match
+                        {chunk.similarity !== null
+                          ? `${Math.round(chunk.similarity * 100)}% match`
+                          : "Keyword match"}
                       </span>
                     </div>
                     <p className="mt-1 line-clamp-3 text-xs leading-relaxed text-gray-600">
@@ -723,7 +1189,7 @@ export default function PdfContent() {
                 ))
               )}
 
-              {/* Divider between semantic results and insights */}
+              {/* Divider between search results and insights */}
               {insights.length > 0 && hasSearched && (
                 <div className="flex items-center gap-2 pb-1 pt-2">
                   <div className="h-px flex-1 bg-gray-200" />
@@ -735,6 +1201,38 @@ export default function PdfContent() {
               )}
             </div>
           )}
+          {/* Sections that failed while others loaded */}
+          {!insightsError && !insightsLoading && failedGroups.length > 0 && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2.5">
+              <div className="flex items-center gap-1.5">
+                <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-amber-500" />
+                <p className="text-xs font-medium text-amber-800">
+                  {failedGroups.length === 1
+                    ? "1 section couldn't be analyzed"
+                    : `${failedGroups.length} sections couldn't be analyzed`}
+                </p>
+                <button
+                  onClick={loadInsights}
+                  className="ml-auto inline-flex items-center gap-1 text-xs font-medium text-amber-700 hover:text-amber-900"
+                >
+                  <RefreshCw className="h-3 w-3" />
+                  Retry
+                </button>
+              </div>
+              <ul className="mt-1.5 space-y-0.5">
+                {failedGroups.map((failure) => (
+                  <li
+                    key={`${failure.documentId}-${failure.groupIndex}`}
+                    className="text-[11px] leading-snug text-amber-700"
+                  >
+                    {otherDocumentIds.length > 0 &&
+                      `${documentNames.get(failure.documentId) ?? "Document"}: `}
+                    {failure.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           {/* Full-page loading: only shown when no insights have arrived yet */}
           {insightsLoading && insights.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12">
@@ -752,7 +1250,9 @@ export default function PdfContent() {
                 Failed to generate insights
               </p>
               <p className="mt-1 text-xs text-gray-500">
-                Something went wrong. Please try again.
+                {failedGroups.length > 0
+                  ? failedGroups[0]!.message
+                  : "Something went wrong. Please try again."}
               </p>
               <button
                 onClick={loadInsights}
@@ -781,6 +1281,8 @@ export default function PdfContent() {
               const localSources = card.sources.filter(
                 (s): s is LocalSource => s.type === "local"
               );
+              const isVerified =
+                localSources.length > 0 && localSources.every((s) => s.verified);
 
               return (
                 <div
@@ -805,10 +1307,30 @@ export default function PdfContent() {
                     animation: `insightCardAppear 0.3s ease-out ${(cardIndex % 5) * 75}ms backwards`,
                   }}
                 >
+                  {/* Source document, when insights span several */}
+                  {otherDocumentIds.length > 0 && (
+                    <p className="mb-1 truncate text-[10px] font-medium text-gray-400">
+                      {card.documentId === documentId
+                        ? fileName
+                        : documentNames.get(card.documentId) ?? "Other document"}
+                    </p>
+                  )}
+
                   {/* Card title */}
-                  <h3 className="text-sm font-semibold text-gray-900">
-                    {card.title}
-                  </h3>
+                  <div className="flex items-start gap-2">
+                    <h3 className="flex-1 text-sm font-semibold text-gray-900">
+                      {card.title}
+                    </h3>
+                    {isVerified && (
+                      <span
+                        title="Every quote was found in the document"
+                        className="inline-flex shrink-0 items-center gap-0.5 rounded-full bg-emerald-50 px-1.5 py-0.5 text-[10px] font-medium text-emerald-700"
+                      >
+                        <BadgeCheck className="h-3 w-3" />
+                        Verified
+                      </span>
+                    )}
+                  </div>
 
                   {/* Card description */}
                   <p
@@ -837,12 +1359,24 @@ export default function PdfContent() {
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  goToPage(src.page);
+                                  openSource(
+                                    src.documentId,
+                                    src.page,
+                                    src.quote
+                                  );
                                 }}
                                 className="text-xs font-medium text-blue-600 hover:underline"
                               >
                                 Page {src.page} &mdash; {src.section}
                               </button>
+                              {src.verified === false && (
+                                <span
+                                  title="Only an approximate match was found in the document"
+                                  className="ml-1.5 text-[10px] text-amber-600"
+                                >
+                                  approximate quote
+                                </span>
+                              )}
                               <p className="mt-0.5 text-xs italic text-gray-500">
                                 &ldquo;{src.quote}&rdquo;
                               </p>
@@ -918,6 +1452,8 @@ export default function PdfContent() {
             </div>
           )}
         </div>
+        </>
+        )}
       </div>
       )}
     </main>
@@ -0,0 +1,151 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, Copy, Loader2, Table2 } from "lucide-react";
+import { getDocumentTables } from "@/src/services/tables";
+import type { DocumentTable } from "@/src/services/tables";
+import { tableToCsv, tableToMarkdown } from "@/src/shared/utils";
+
+// ---------- Types ----------
+
+interface TablesPanelProps {
+  documentId: string;
+  /** Jump the PDF viewer to a page */
+  onGoToPage: (page: number) => void;
+}
+
+type CopyFormat = "csv" | "markdown";
+
+// ---------- Component ----------
+
+export default function TablesPanel({ documentId, onGoToPage }: TablesPanelProps) {
+  const [tables, setTables] = useState<DocumentTable[]>([]);
+  const [loading, setLoading] = useState(true);
+  /** Which table/format was just copied, for the check-mark feedback */
+  const [copied, setCopied] = useState<{ id: string; format: CopyFormat } | null>(
+    null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    getDocumentTables(documentId)
+      .then((result) => {
+        if (!cancelled) setTables(result);
+      })
+      .catch((err) => {
+        console.error("[TablesPanel] Failed to load tables:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  const handleCopy = useCallback(
+    async (table: DocumentTable, format: CopyFormat) => {
+      const text =
+        format === "csv" ? tableToCsv(table.rows) : tableToMarkdown(table.rows);
+      try {
+        await navigator.clipboard.writeText(text);
+        setCopied({ id: table.id, format });
+        setTimeout(() => setCopied(null), 1500);
+      } catch (err) {
+        console.error("[TablesPanel] Copy failed:", err);
+      }
+    },
+    []
+  );
+
+  if (loading) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (tables.length === 0) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center px-6 text-center">
+        <Table2 className="mb-2 h-8 w-8 text-gray-300" />
+        <p className="text-xs text-gray-500">No tables found in this document.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 space-y-3 overflow-y-auto px-4 py-3">
+      {tables.map((table) => {
+        const [header = [], ...body] = table.rows;
+        return (
+          <div
+            key={table.id}
+            className="rounded-lg border border-gray-200 bg-white p-3"
+          >
+            <div className="mb-2 flex items-start gap-2">
+              <div className="min-w-0 flex-1">
+                <p className="text-xs font-medium text-gray-800">
+                  {table.caption ?? `Table ${table.table_index + 1}`}
+                </p>
+                <button
+                  onClick={() => onGoToPage(table.page)}
+                  className="text-[11px] text-blue-600 hover:underline"
+                >
+                  Page {table.page}
+                </button>
+              </div>
+              {(["csv", "markdown"] as const).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleCopy(table, format)}
+                  className="flex shrink-0 items-center gap-1 rounded border border-gray-200 px-1.5 py-0.5 text-[10px] text-gray-500 hover:border-blue-200 hover:text-blue-600"
+                  title={`Copy as ${format === "csv" ? "CSV" : "Markdown"}`}
+                >
+                  {copied?.id === table.id && copied.format === format ? (
+                    <Check className="h-3 w-3 text-green-600" />
+                  ) : (
+                    <Copy className="h-3 w-3" />
+                  )}
+                  {format === "csv" ? "CSV" : "MD"}
+                </button>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse text-[11px]">
+                <thead>
+                  <tr>
+                    {header.map((cell, i) => (
+                      <th
+                        key={i}
+                        className="border-b border-gray-200 px-1.5 py-1 text-left font-medium whitespace-nowrap text-gray-700"
+                      >
+                        {cell}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {body.map((row, r) => (
+                    <tr key={r} className="odd:bg-gray-50">
+                      {row.map((cell, c) => (
+                        <td
+                          key={c}
+                          className="px-1.5 py-1 whitespace-nowrap text-gray-600"
+                        >
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
   AlertCircle,
   Upload,
   ArrowRight,
+  Search,
 } from "lucide-react";
 import { listDocuments, deleteDocument } from "@/src/services/documents";
 import type { Document } from "@/src/services/documents";
@@ -181,13 +182,24 @@ export default function DocumentsContent() {
             {documents.length === 1 ? "document" : "documents"} uploaded
           </p>
         </div>
-        <Link
-          href="/"
-          className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white transition-colors hover:bg-blue-700"
-        >
-          <Upload className="h-4 w-4" />
-          Upload PDF
-        </Link>
+        <div className="flex items-center gap-2">
+          {documents.some((d) => d.status === "ready") && (
+            <Link
+              href="/search"
+              className="flex items-center gap-2 rounded-lg border border-gray-200 px-4 py-2.5 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+            >
+              <Search className="h-4 w-4" />
+              Search
+            </Link>
+          )}
+          <Link
+            href="/"
+            className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+          >
+            <Upload className="h-4 w-4" />
+            Upload PDF
+          </Link>
+        </div>
       </div>
 
       {/* Empty state */}
@@ -1,109 +1,138 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { FileText, Loader2, CheckCircle2, XCircle } from "lucide-react";
-import { processDocument } from "@/src/services/rag";
-import { getDocument } from "@/src/services/documents";
-
-const STEPS = [
-  "Uploading document...",
-  "Extracting text from PDF...",
-  "Splitting into chunks...",
-  "Generating embeddings...",
-  "Indexing for search...",
-  "Almost ready...",
+import { getProcessingStatus, retryProcessing } from "@/src/services/jobs";
+import type { ProcessingStatus } from "@/src/services/jobs";
+import type {
+  ProcessingProgress,
+  ProcessingStage,
+} from "@/src/services/documents";
+
+/**
+ * Pipeline stages in order, with the share of the progress bar each covers.
+ * The OCR and embed stages fill their share unit by unit. OCR only runs for
+ * scanned pages, so its step is hidden unless the pipeline reaches it.
+ */
+const STEPS: {
+  stage: ProcessingStage;
+  label: string;
+  from: number;
+  to: number;
+  unit: string;
+  optional?: boolean;
+}[] = [
+  { stage: "download", label: "Downloading document...", from: 0, to: 5, unit: "batch" },
+  { stage: "extract", label: "Extracting text from PDF...", from: 5, to: 12, unit: "batch" },
+  {
+    stage: "ocr",
+    label: "Recognizing text in scanned pages...",
+    from: 12,
+    to: 35,
+    unit: "page",
+    optional: true,
+  },
+  { stage: "chunk", label: "Splitting into chunks...", from: 35, to: 38, unit: "batch" },
+  { stage: "embed", label: "Generating embeddings...", from: 38, to: 92, unit: "batch" },
+  { stage: "insert", label: "Indexing for search...", from: 92, to: 100, unit: "batch" },
 ];
 
+/** How often the document row is polled for progress */
+const POLL_INTERVAL_MS = 1000;
+
+/** Map persisted progress to a step index, bar percentage and label */
+function describeProgress(progress: ProcessingProgress | null) {
+  const index = progress
+    ? Math.max(0, STEPS.findIndex((s) => s.stage === progress.stage))
+    : 0;
+  const step = STEPS[index]!;
+
+  let percent = step.from;
+  let label = step.label;
+  if (progress?.current && progress.total) {
+    // Count the running batch as half done so the bar keeps moving
+    const fraction = (progress.current - 0.5) / progress.total;
+    percent = step.from + (step.to - step.from) * fraction;
+    label = `${step.label.replace(/\.\.\.$/, "")} (${step.unit} ${progress.current} of ${progress.total})...`;
+  }
+
+  return { index, percent: Math.round(percent), label };
+}
+
 export default function ProcessingContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const documentId = searchParams.get("id");
   const fileName = searchParams.get("file") ?? "document.pdf";
 
-  const [currentStep, setCurrentStep] = useState(0);
-  const [progress, setProgress] = useState(0);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [ocrPages, setOcrPages] = useState<number[]>([]);
   const [status, setStatus] = useState<
     "processing" | "ready" | "failed"
   >("processing");
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [job, setJob] = useState<ProcessingStatus["job"]>(null);
+  const [retrying, setRetrying] = useState(false);
 
-  // Track whether we've already kicked off processing
-  const processingStarted = useRef(false);
-
+  // Processing runs in a background job (enqueued by uploadDocument), so this
+  // page only watches the document row and its job — closing it is safe.
   useEffect(() => {
-    if (!documentId) {
-      setStatus("failed");
-      setErrorMessage("No document ID provided.");
-      return;
-    }
+    if (!documentId || status !== "processing") return;
 
-    if (processingStarted.current) return;
-    processingStarted.current = true;
-
-    console.log("[ProcessingContent] Starting processing for document:", documentId);
-
-    // Animate progress steps while processing happens in the background
-    const stepInterval = setInterval(() => {
-      setCurrentStep((prev) => {
-        // Don't advance past "Almost ready..." until actually ready
-        if (prev < STEPS.length - 1) return prev + 1;
-        return prev;
-      });
-    }, 2000);
-
-    const progressInterval = setInterval(() => {
-      setProgress((prev) => {
-        // Cap at 90% until processing actually finishes
-        if (prev >= 90) return 90;
-        return prev + 1;
-      });
-    }, 200);
-
-    // Kick off the actual processing pipeline
-    async function runProcessing() {
+    const interval = setInterval(async () => {
       try {
-        console.log("[ProcessingContent] Calling processDocument...");
-        const result = await processDocument(documentId!);
-        console.log("[ProcessingContent] processDocument result:", JSON.stringify(result));
+        const current = await getProcessingStatus(documentId);
+        if (!current) return;
+        const { document: doc } = current;
+
+        setProgress(doc.processing_progress);
+        setOcrPages(doc.ocr_pages ?? []);
+        setJob(current.job);
 
-        if (!result.success) {
-          console.error("[ProcessingContent] Processing failed:", result.error);
+        if (doc.status === "ready") {
+          console.log("[ProcessingContent] Processing succeeded, redirecting...");
+          setStatus("ready");
+          // Brief delay so user sees "100%" before redirect
+          setTimeout(() => {
+            router.push(
+              `/chat?id=${documentId}&file=${encodeURIComponent(fileName)}`
+            );
+          }, 800);
+        } else if (doc.status === "failed") {
           setStatus("failed");
-          setErrorMessage(result.error);
-          clearInterval(stepInterval);
-          clearInterval(progressInterval);
-          return;
+          setErrorMessage(doc.processing_error ?? "Processing failed.");
         }
-
-        // Processing succeeded — finish the animation
-        console.log("[ProcessingContent] Processing succeeded, redirecting...");
-        setProgress(100);
-        setCurrentStep(STEPS.length - 1);
-        setStatus("ready");
-
-        // Brief delay so user sees "100%" before redirect
-        setTimeout(() => {
-          router.push(
-            `/chat?id=${documentId}&file=${encodeURIComponent(fileName)}`
-          );
-        }, 800);
       } catch (err) {
-        console.error("[ProcessingContent] Unexpected error:", err);
-        setStatus("failed");
-        setErrorMessage("An unexpected error occurred during processing.");
-        clearInterval(stepInterval);
-        clearInterval(progressInterval);
+        console.error("[ProcessingContent] Progress poll failed:", err);
       }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [documentId, fileName, router, status]);
+
+  const handleRetry = useCallback(async () => {
+    if (!documentId) return;
+    setRetrying(true);
+    try {
+      if (await retryProcessing(documentId)) {
+        setProgress(null);
+        setErrorMessage(null);
+        setStatus("processing");
+      } else {
+        setErrorMessage("Could not restart processing. Please try again.");
+      }
+    } finally {
+      setRetrying(false);
     }
+  }, [documentId]);
 
-    runProcessing();
+  // A failed attempt with retries left shows as a pending retry, not a failure
+  const retryPending =
+    status === "processing" && job?.status === "queued" && job.attempts > 0;
 
-    return () => {
-      clearInterval(stepInterval);
-      clearInterval(progressInterval);
-    };
-  }, [documentId, fileName, router]);
+  const { index: currentStep, percent, label } = describeProgress(progress);
+  const showOcrStep = progress?.stage === "ocr" || ocrPages.length > 0;
 
   // If no document ID, show error
   if (!documentId) {
@@ -172,7 +201,7 @@ export default function ProcessingContent() {
                 className={`h-full rounded-full transition-all duration-300 ease-out ${
                   status === "ready" ? "bg-green-500" : "bg-blue-600"
                 }`}
-                style={{ width: `${progress}%` }}
+                style={{ width: `${status === "ready" ? 100 : percent}%` }}
               />
             </div>
           )}
@@ -181,34 +210,51 @@ export default function ProcessingContent() {
           {status === "processing" && (
             <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
               <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
-              <span>{STEPS[currentStep]}</span>
+              <span>{label}</span>
             </div>
           )}
 
+          {/* Scheduled retry after a failed attempt */}
+          {retryPending && job && (
+            <p className="mt-2 text-xs text-amber-600">
+              Attempt {job.attempts} of {job.max_attempts} failed
+              {job.last_error ? `: ${job.last_error}` : ""}. Retrying shortly...
+            </p>
+          )}
+
+          {/* Processing continues server-side */}
+          {status === "processing" && (
+            <p className="mt-2 text-xs text-gray-400">
+              You can close this page — processing continues in the background.
+            </p>
+          )}
+
           {/* Step indicators */}
           {status !== "failed" && (
             <div className="mt-6 space-y-2">
-              {STEPS.map((step, i) => (
-                <div
-                  key={step}
-                  className={`flex items-center gap-2 text-xs transition-opacity duration-300 ${
-                    i <= currentStep
-                      ? "text-gray-700 opacity-100"
-                      : "text-gray-400 opacity-40"
-                  }`}
-                >
-                  <span
-                    className={`h-1.5 w-1.5 rounded-full ${
-                      i < currentStep
-                        ? "bg-green-500"
-                        : i === currentStep
-                          ? "bg-blue-600"
-                          : "bg-gray-300"
+              {STEPS.map((step, i) =>
+                step.optional && !showOcrStep ? null : (
+                  <div
+                    key={step.stage}
+                    className={`flex items-center gap-2 text-xs transition-opacity duration-300 ${
+                      i <= currentStep || status === "ready"
+                        ? "text-gray-700 opacity-100"
+                        : "text-gray-400 opacity-40"
                     }`}
-                  />
-                  {step}
-                </div>
-              ))}
+                  >
+                    <span
+                      className={`h-1.5 w-1.5 rounded-full ${
+                        i < currentStep || status === "ready"
+                          ? "bg-green-500"
+                          : i === currentStep
+                            ? "bg-blue-600"
+                            : "bg-gray-300"
+                      }`}
+                    />
+                    {step.label}
+                  </div>
+                )
+              )}
             </div>
           )}
 
@@ -222,8 +268,9 @@ export default function ProcessingContent() {
                 Upload a different PDF
               </button>
               <button
-                onClick={() => window.location.reload()}
-                className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+                onClick={handleRetry}
+                disabled={retrying}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
               >
                 Retry
               </button>
@@ -0,0 +1,16 @@
+import { Suspense } from "react";
+import SearchContent from "./search-content";
+
+export default function SearchPage() {
+  return (
+    <Suspense
+      fallback={
+        <main className="flex flex-1 items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-blue-600 border-t-transparent" />
+        </main>
+      }
+    >
+      <SearchContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  FileSearch,
+  FileText,
+  Loader2,
+  Search,
+} from "lucide-react";
+import { listDocuments } from "@/src/services/documents";
+import type { Document } from "@/src/services/documents";
+import {
+  listStaleEmbeddingDocuments,
+  searchLibrary,
+} from "@/src/services/rag";
+import type { LibrarySearchGroup, SearchMode } from "@/src/services/rag";
+import { useAuth } from "@/src/shared/hooks";
+
+// ---------- Config ----------
+
+const SEARCH_MODES: { id: SearchMode; label: string }[] = [
+  { id: "hybrid", label: "Hybrid" },
+  { id: "keyword", label: "Keyword" },
+  { id: "semantic", label: "Semantic" },
+];
+
+// ---------- Component ----------
+
+export default function SearchContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, isLoading: authLoading } = useAuth();
+
+  const [documents, setDocuments] = useState<Document[]>([]);
+  /** Documents to search; empty means the whole library */
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [query, setQuery] = useState(searchParams.get("q") ?? "");
+  const [mode, setMode] = useState<SearchMode>("hybrid");
+  const [results, setResults] = useState<LibrarySearchGroup[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [hasSearched, setHasSearched] = useState(false);
+  /** Searched documents whose vectors are from an older model */
+  const [staleCount, setStaleCount] = useState(0);
+
+  // Load the documents that can be searched
+  useEffect(() => {
+    if (authLoading || !user) return;
+    listDocuments()
+      .then((docs) => setDocuments(docs.filter((d) => d.status === "ready")))
+      .catch((err) => console.error("Failed to load documents:", err));
+  }, [user, authLoading]);
+
+  const runSearch = useCallback(async () => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+
+    setSearching(true);
+    setHasSearched(true);
+    router.replace(`/search?q=${encodeURIComponent(trimmed)}`);
+    try {
+      const documentIds = selectedIds.length > 0 ? selectedIds : undefined;
+      const [groups, stale] = await Promise.all([
+        searchLibrary(trimmed, { mode, documentIds }),
+        mode === "keyword" ? [] : listStaleEmbeddingDocuments(documentIds),
+      ]);
+      setResults(groups);
+      setStaleCount(stale.length);
+    } catch (err) {
+      console.error("Library search failed:", err);
+      setResults([]);
+    } finally {
+      setSearching(false);
+    }
+  }, [query, mode, selectedIds, router]);
+
+  function toggleDocument(id: string) {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((d) => d !== id) : [...prev, id]
+    );
+  }
+
+  function openHit(group: LibrarySearchGroup, page: number) {
+    router.push(
+      `/chat?id=${group.documentId}&file=${encodeURIComponent(group.fileName)}&page=${page}`
+    );
+  }
+
+  // Not logged in
+  if (!authLoading && !user) {
+    return (
+      <main className="flex flex-1 items-center justify-center px-6 py-16">
+        <div className="text-center">
+          <FileSearch className="mx-auto mb-4 h-12 w-12 text-gray-300" />
+          <h1 className="text-lg font-semibold text-gray-900">
+            Sign in to search your documents
+          </h1>
+          <Link
+            href="/login"
+            className="mt-4 inline-block rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+          >
+            Sign in
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="mx-auto w-full max-w-4xl px-6 py-10">
+      {/* Header */}
+      <div className="mb-6">
+        <Link
+          href="/documents"
+          className="mb-3 inline-flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="h-3.5 w-3.5" />
+          Your Documents
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">Search Library</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Find passages across all of your documents.
+        </p>
+      </div>
+
+      {/* Search bar */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          runSearch();
+        }}
+        className="flex gap-2"
+      >
+        <div className="relative flex-1">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search terms, names, or a question..."
+            className="w-full rounded-lg border border-gray-200 py-2.5 pl-9 pr-3 text-sm text-gray-900 outline-none placeholder:text-gray-400 focus:border-blue-300 focus:ring-1 focus:ring-blue-300"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!query.trim() || searching}
+          className="rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+        >
+          Search
+        </button>
+      </form>
+
+      {/* Mode and document filters */}
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <div className="flex rounded-md border border-gray-200 p-0.5">
+          {SEARCH_MODES.map((m) => (
+            <button
+              key={m.id}
+              onClick={() => setMode(m.id)}
+              className={`rounded px-2 py-0.5 text-xs font-medium transition-colors ${
+                mode === m.id
+                  ? "bg-blue-50 text-blue-700"
+                  : "text-gray-400 hover:text-gray-600"
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        {documents.length > 1 && (
+          <>
+            <span className="text-xs text-gray-400">
+              {selectedIds.length === 0 ? "In all documents" : "In:"}
+            </span>
+            {documents.map((doc) => (
+              <button
+                key={doc.id}
+                onClick={() => toggleDocument(doc.id)}
+                className={`max-w-48 truncate rounded-full border px-2.5 py-0.5 text-xs transition-colors ${
+                  selectedIds.includes(doc.id)
+                    ? "border-blue-300 bg-blue-50 text-blue-700"
+                    : "border-gray-200 text-gray-500 hover:border-gray-300"
+                }`}
+                title={doc.file_name}
+              >
+                {doc.file_name}
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+
+      {!searching && hasSearched && staleCount > 0 && (
+        <p className="mt-4 flex items-start gap-1.5 text-xs text-amber-700">
+          <AlertTriangle className="mt-px h-3.5 w-3.5 shrink-0 text-amber-500" />
+          {staleCount === 1
+            ? "1 document is being re-indexed for a new search model, so only its keyword matches are shown for now."
+            : `${staleCount} documents are being re-indexed for a new search model, so only their keyword matches are shown for now.`}
+        </p>
+      )}
+
+      {/* Results */}
+      <div className="mt-8 space-y-6">
+        {searching ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : hasSearched && results.length === 0 ? (
+          <div className="rounded-xl border-2 border-dashed border-gray-200 py-12 text-center">
+            <p className="text-sm text-gray-500">No matching passages found.</p>
+          </div>
+        ) : (
+          results.map((group) => (
+            <section key={group.documentId}>
+              <h2 className="mb-2 flex items-center gap-2 text-sm font-semibold text-gray-900">
+                <FileText className="h-4 w-4 text-blue-600" />
+                <span className="truncate">{group.fileName}</span>
+                <span className="rounded-full bg-gray-100 px-1.5 py-0.5 text-[10px] font-medium text-gray-500 tabular-nums">
+                  {group.hits.length}
+                </span>
+              </h2>
+              <div className="space-y-2">
+                {group.hits.map((hit) => (
+                  <button
+                    key={hit.id}
+                    onClick={() => openHit(group, hit.page_start)}
+                    className="block w-full rounded-lg border border-gray-200 px-4 py-3 text-left transition-all hover:border-gray-300 hover:shadow-sm"
+                  >
+                    <span className="text-xs font-medium text-blue-600">
+                      Page {hit.page_start}
+                      {hit.page_end !== hit.page_start && `–${hit.page_end}`}
+                    </span>
+                    <p className="mt-1 line-clamp-3 text-sm leading-relaxed text-gray-600">
+                      {hit.content}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </section>
+          ))
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { sseResponse } from "@/lib/sse";
+import { getLlmProvider } from "@/lib/llm";
+import {
+  answerRequest,
+  chatDocumentIds,
+  mapCitations,
+  NO_CONTEXT_ANSWER,
+  retrieveContext,
+} from "@/lib/chat/answer";
+import { appendThreadExchange } from "@/src/services/threads";
+import type { ChatMessage } from "@/src/services/chat";
+
+/**
+ * Stream a grounded answer for a question about a document.
+ *
+ * Body: { documentId, question, history, threadId?, otherDocumentIds? }
+ * When `threadId` is given, the finished exchange is saved to that thread.
+ * `otherDocumentIds` widens retrieval to further documents; citations then
+ * carry the document they point into.
+ * Events:
+ * - `token`  { text }               — next slice of the answer
+ * - `done`   { answer, citations }  — final answer with mapped citations
+ * - `error`  { message }
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    documentId?: string;
+    question?: string;
+    history?: ChatMessage[];
+    threadId?: string;
+    otherDocumentIds?: string[];
+  } | null;
+
+  const documentId = body?.documentId;
+  const question = body?.question?.trim();
+  if (!documentId || !question) {
+    return NextResponse.json(
+      { error: "documentId and question are required." },
+      { status: 400 }
+    );
+  }
+
+  return sseResponse(async (send, signal) => {
+    const chunks = await retrieveContext(
+      supabase,
+      chatDocumentIds(documentId, body.otherDocumentIds),
+      question
+    );
+    console.log(`[chat/stream] Retrieved ${chunks.length} chunks for question`);
+
+    if (chunks.length === 0) {
+      send("token", { text: NO_CONTEXT_ANSWER });
+      send("done", { answer: NO_CONTEXT_ANSWER, citations: [] });
+      if (body.threadId) {
+        await appendThreadExchange(body.threadId, question, NO_CONTEXT_ANSWER, []);
+      }
+      return;
+    }
+
+    const stream = getLlmProvider().stream({
+      ...answerRequest(chunks, question, body.history ?? []),
+      signal,
+    });
+
+    let answer = "";
+    for await (const text of stream) {
+      answer += text;
+      send("token", { text });
+    }
+
+    answer = answer.trim();
+    const citations = mapCitations(answer, chunks);
+    send("done", { answer, citations });
+
+    if (body.threadId && answer) {
+      await appendThreadExchange(body.threadId, question, answer, citations);
+    }
+  }, request.signal);
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { buildAnnotatedPdf } from "@/lib/export/annotated-pdf";
+import { listAnnotations } from "@/src/services/annotations";
+import { getCachedDocumentInsights } from "@/src/services/insights";
+
+/**
+ * Download a document with the user's highlights and notes written in as
+ * PDF annotations. `?insights=1` appends an "Insights" page listing the
+ * document's cached insight cards.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const withInsights =
+    new URL(request.url).searchParams.get("insights") === "1";
+
+  // RLS limits this to the user's own documents
+  const { data: doc } = await supabase
+    .from("documents")
+    .select("file_url, file_name")
+    .eq("id", id)
+    .single();
+
+  if (!doc?.file_url) {
+    return NextResponse.json({ error: "Document not found." }, { status: 404 });
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from("pdfs")
+    .download(doc.file_url);
+
+  if (downloadError || !file) {
+    console.error("[export] Download failed:", downloadError?.message);
+    return NextResponse.json(
+      { error: "Failed to load the PDF." },
+      { status: 500 }
+    );
+  }
+
+  const [annotations, insights] = await Promise.all([
+    listAnnotations(id),
+    withInsights ? getCachedDocumentInsights(id) : null,
+  ]);
+
+  let pdf: Uint8Array;
+  try {
+    pdf = await buildAnnotatedPdf(
+      new Uint8Array(await file.arrayBuffer()),
+      annotations,
+      { insights, fileName: doc.file_name }
+    );
+  } catch (err) {
+    console.error("[export] Failed to build annotated PDF:", err);
+    return NextResponse.json(
+      { error: "This PDF couldn't be annotated (it may be encrypted)." },
+      { status: 422 }
+    );
+  }
+
+  const name = `${doc.file_name.replace(/\.pdf$/i, "")}-annotated.pdf`;
+  return new Response(Buffer.from(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${name.replace(/[^\x20-\x7e]|"/g, "_")}"; filename*=UTF-8''${encodeURIComponent(name)}`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getEmbeddingCacheStats } from "@/lib/rag/embedding-cache";
+
+/**
+ * Embedding cache hit-rate counters for the server instance that answers.
+ * Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json(getEmbeddingCacheStats());
+}
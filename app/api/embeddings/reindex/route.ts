@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { reindexDocuments } from "@/lib/rag/reindex";
+
+// Long enough for a run to re-embed a few documents
+export const maxDuration = 300;
+
+/**
+ * Re-embed every user's documents with the configured embedding provider,
+ * after EMBEDDING_* has changed. Call with
+ * `Authorization: Bearer $CRON_SECRET`, repeatedly (or on a schedule) until
+ * `remaining` is 0. A POST body of `{ "documentIds": [...] }` limits the
+ * run to those documents.
+ */
+async function handle(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let documentIds: string[] | undefined;
+  if (request.method === "POST") {
+    const body = (await request.json().catch(() => ({}))) as {
+      documentIds?: string[];
+    };
+    documentIds = body.documentIds;
+  }
+
+  const summary = await reindexDocuments(createAdminClient(), { documentIds });
+  return NextResponse.json(summary);
+}
+
+export const GET = handle;
+export const POST = handle;
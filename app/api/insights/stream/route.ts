@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { sseResponse } from "@/lib/sse";
+import { getLlmProvider } from "@/lib/llm";
+import {
+  buildGroupPrompt,
+  extractRequest,
+  fetchGroupChunks,
+  groupInsightId,
+  toInsight,
+} from "@/lib/insights/extract";
+import type { RawInsight } from "@/lib/insights/extract";
+import {
+  generateInsightArray,
+  parseInsightResponse,
+  validateRawInsight,
+} from "@/lib/insights/parse";
+import { JsonArrayScanner } from "@/lib/insights/partial-json";
+import { createQuoteVerifier } from "@/lib/insights/verify";
+
+/**
+ * Stream insight extraction for one group of chunks. Each insight is sent
+ * as soon as the model finishes writing its JSON object, so cards can be
+ * rendered before the whole group completes. Quotes are verified against
+ * the document text before an insight is sent. Items failing validation are
+ * skipped; if the response yields nothing usable it is repaired with one
+ * non-streamed retry, and a truncated response keeps what was sent.
+ *
+ * Body: { documentId, groupIndex, totalGroups }
+ * Events:
+ * - `insight` { insight }  — one finished Insight (same IDs as extractGroupInsights)
+ * - `done`    { count, partial? }  — partial names what cut the group short
+ * - `error`   { message }           — names the section that failed
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    documentId?: string;
+    groupIndex?: number;
+    totalGroups?: number;
+  } | null;
+
+  const documentId = body?.documentId;
+  const groupIndex = body?.groupIndex;
+  const totalGroups = body?.totalGroups;
+  if (
+    !documentId ||
+    typeof groupIndex !== "number" ||
+    typeof totalGroups !== "number"
+  ) {
+    return NextResponse.json(
+      { error: "documentId, groupIndex and totalGroups are required." },
+      { status: 400 }
+    );
+  }
+
+  return sseResponse(async (send, signal) => {
+    const chunks = await fetchGroupChunks(supabase, documentId, groupIndex);
+    if (!chunks) {
+      send("done", { count: 0 });
+      return;
+    }
+
+    console.log(
+      `[insights/stream] Extracting group ${groupIndex + 1}/${totalGroups} (${chunks.length} chunks)`
+    );
+
+    const label = `Section ${groupIndex + 1} of ${totalGroups}`;
+    const extract = extractRequest(
+      buildGroupPrompt(chunks, groupIndex, totalGroups)
+    );
+    const verifier = createQuoteVerifier(supabase, documentId, chunks);
+    let count = 0;
+    const sendInsights = async (items: RawInsight[]) => {
+      if (items.length === 0) return;
+      for (const raw of await verifier.verify(items)) {
+        send("insight", {
+          insight: toInsight(
+            raw,
+            groupInsightId(documentId, groupIndex, count),
+            documentId
+          ),
+        });
+        count++;
+      }
+    };
+
+    try {
+      const stream = getLlmProvider().stream({ ...extract, json: true, signal });
+      const scanner = new JsonArrayScanner<unknown>();
+      for await (const text of stream) {
+        await sendInsights(
+          scanner.push(text).flatMap((item) => {
+            const checked = validateRawInsight(item);
+            return "insight" in checked ? [checked.insight] : [];
+          })
+        );
+      }
+
+      const parsed = parseInsightResponse(scanner.text);
+      let { problem } = parsed;
+      // The scanner only sees a bare array; a wrapped one ({"insights": [...]})
+      // is only found by parsing the whole response
+      if (count === 0) await sendInsights(parsed.insights);
+      if (problem && count === 0) {
+        const repaired = await generateInsightArray(
+          extract,
+          label,
+          scanner.text
+        );
+        await sendInsights(repaired.insights);
+        problem = repaired.problem;
+        if (count === 0 && problem) throw new Error(problem);
+      }
+
+      console.log(
+        `[insights/stream] Group ${groupIndex + 1}: streamed ${count} insights${problem ? ` (partial: ${problem})` : ""}`
+      );
+      send("done", { count, ...(problem && { partial: problem }) });
+    } catch (err) {
+      if (signal.aborted) return;
+      throw new Error(
+        `${label} failed: ${err instanceof Error ? err.message : "unknown error"}`
+      );
+    }
+  }, request.signal);
+}
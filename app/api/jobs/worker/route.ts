@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { runWorker } from "@/lib/jobs/worker";
+
+// Long enough for a worker run to drain a few documents
+export const maxDuration = 300;
+
+/**
+ * Run the processing job worker. Intended to be called on a schedule
+ * (e.g. a cron every minute) with `Authorization: Bearer $CRON_SECRET`, so
+ * retries and stuck-document recovery happen even when nobody is uploading.
+ */
+async function handle(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const summary = await runWorker();
+  return NextResponse.json(summary);
+}
+
+export const GET = handle;
+export const POST = handle;
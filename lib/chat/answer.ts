@@ -0,0 +1,174 @@
+import type { LlmMessage, LlmRequest } from "@/lib/llm";
+import { reciprocalRankFusion } from "@/lib/rag/fusion";
+import type { createClient } from "@/lib/supabase/server";
+import { searchChunks } from "@/src/services/rag";
+import type { ChunkSearchResult } from "@/src/services/rag";
+import type { ChatCitation, ChatMessage } from "@/src/services/chat";
+
+// Shared by the askQuestion server action and the streaming chat route.
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/** A chunk returned by `searchChunks`, tagged with the document it came from */
+export type RetrievedChunk = ChunkSearchResult & {
+  document_id: string;
+  file_name: string;
+};
+
+// ---------- Config ----------
+
+/** Number of chunks retrieved as context for each question */
+export const CONTEXT_CHUNKS = 6;
+/** Each document in a multi-document chat gets at least this many chunks */
+const CHUNKS_PER_DOCUMENT = 3;
+/** Upper bound on the documents a single chat can span */
+export const MAX_CHAT_DOCUMENTS = 5;
+/** How many previous messages are sent back to the model */
+const MAX_HISTORY_MESSAGES = 10;
+const EXCERPT_LENGTH = 220;
+
+export const NO_CONTEXT_ANSWER =
+  "I couldn't find anything in this document related to that question. Try rephrasing it or asking about a different topic.";
+
+/**
+ * System prompt for grounded question answering.
+ */
+const ANSWER_PROMPT = `You are a research assistant answering questions about one or more PDF documents.
+
+You will receive numbered passages retrieved from the documents, followed by the user's question. When there are several documents, each passage is labeled with the document it comes from.
+
+Rules:
+- Answer ONLY from the provided passages. If they do not contain the answer, say so plainly.
+- Cite every factual claim with the passage marker in square brackets, e.g. [1] or [2][3].
+- Only use markers that appear in the passages.
+- Be concise: a short paragraph or a few bullet points is usually enough.
+- Use the conversation history to resolve follow-up questions ("what about the second one?").
+- When comparing documents, name the document each claim comes from and point out where they agree or disagree.
+- Do not invent page numbers — the markers are mapped to pages for you.`;
+
+// ---------- Helpers ----------
+
+/**
+ * The documents a chat spans: the open document first, then the others,
+ * without duplicates and capped at MAX_CHAT_DOCUMENTS.
+ */
+export function chatDocumentIds(
+  documentId: string,
+  otherDocumentIds: string[] = []
+): string[] {
+  return [...new Set([documentId, ...otherDocumentIds])].slice(
+    0,
+    MAX_CHAT_DOCUMENTS
+  );
+}
+
+/**
+ * Retrieve context for a question across one or more documents. Each
+ * document is searched with `searchChunks` and the per-document rankings
+ * are fused, so every document contributes its best passages instead of
+ * one document crowding out the others.
+ */
+export async function retrieveContext(
+  supabase: SupabaseServerClient,
+  documentIds: string[],
+  question: string
+): Promise<RetrievedChunk[]> {
+  const count = Math.max(
+    CONTEXT_CHUNKS,
+    documentIds.length * CHUNKS_PER_DOCUMENT
+  );
+
+  const [lists, { data: documents }] = await Promise.all([
+    Promise.all(documentIds.map((id) => searchChunks(id, question, count))),
+    supabase.from("documents").select("id, file_name").in("id", documentIds),
+  ]);
+
+  const fileNames = new Map(
+    (documents ?? []).map((d) => [d.id as string, d.file_name as string])
+  );
+  const tagged = lists.map((list, i) =>
+    list.map((chunk) => ({
+      ...chunk,
+      document_id: documentIds[i]!,
+      file_name: fileNames.get(documentIds[i]!) ?? "Untitled document",
+    }))
+  );
+
+  return reciprocalRankFusion(tagged)
+    .slice(0, count)
+    .map(({ item }) => item);
+}
+
+/**
+ * Build the LLM request: recent history followed by the numbered passages
+ * and the new question. Passages are labeled with their document when
+ * they come from more than one.
+ */
+export function answerRequest(
+  chunks: RetrievedChunk[],
+  question: string,
+  history: ChatMessage[]
+): LlmRequest {
+  const multiDocument = new Set(chunks.map((c) => c.document_id)).size > 1;
+  const context = chunks
+    .map((c, i) => {
+      const pages = `Pages ${c.page_start}-${c.page_end}`;
+      const label = multiDocument ? `${c.file_name}, ${pages}` : pages;
+      return `[${i + 1}] (${label})\n${c.content}`;
+    })
+    .join("\n\n---\n\n");
+
+  const recentHistory: LlmMessage[] = history
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(({ role, content }) => ({ role, content }));
+
+  return {
+    system: ANSWER_PROMPT,
+    prompt: [
+      ...recentHistory,
+      {
+        role: "user",
+        content: `Passages from the ${multiDocument ? "documents" : "document"}:\n\n${context}\n\nQuestion: ${question}`,
+      },
+    ],
+    temperature: 0.2,
+    maxOutputTokens: 4000,
+  };
+}
+
+/** Build the excerpt shown under a citation */
+function toExcerpt(content: string): string {
+  const clean = content.replace(/\s+/g, " ").trim();
+  return clean.length > EXCERPT_LENGTH
+    ? `${clean.slice(0, EXCERPT_LENGTH).trimEnd()}…`
+    : clean;
+}
+
+/**
+ * Map the [n] markers used in an answer back to the retrieved chunks,
+ * in order of first use. Markers the model made up are ignored.
+ */
+export function mapCitations(
+  answer: string,
+  chunks: RetrievedChunk[]
+): ChatCitation[] {
+  const seen = new Set<number>();
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    seen.add(Number(match[1]));
+  }
+
+  return [...seen]
+    .filter((marker) => marker >= 1 && marker <= chunks.length)
+    .map((marker) => {
+      const chunk = chunks[marker - 1]!;
+      return {
+        marker,
+        chunkId: chunk.id,
+        documentId: chunk.document_id,
+        fileName: chunk.file_name,
+        page_start: chunk.page_start,
+        page_end: chunk.page_end,
+        excerpt: toExcerpt(chunk.content),
+      };
+    });
+}
@@ -0,0 +1,279 @@
+import {
+  closePath,
+  fill,
+  lineTo,
+  moveTo,
+  PDFDocument,
+  PDFHexString,
+  PDFString,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  setFillingRgbColor,
+  setGraphicsState,
+  StandardFonts,
+} from "pdf-lib";
+import type { PDFFont, PDFPage } from "pdf-lib";
+import type { Annotation } from "@/src/services/annotations";
+import type { Insight } from "@/src/services/insights";
+import { ANNOTATION_COLOR_HEX, rotateQuad } from "@/src/shared/utils";
+
+// Writing a user's annotations into a copy of the original PDF, so they
+// show up in any PDF reader:
+//
+//   - highlights become Highlight annotations (with an appearance stream,
+//     for readers that don't draw their own)
+//   - notes become Text ("sticky note") annotations beside the highlight
+//   - optionally, an "Insights" appendix lists the document's insight
+//     cards with the pages they cite
+//
+// Annotation quads are fractions of the page as displayed (its own
+// /Rotate applied, the viewer's rotation undone), top-left origin.
+
+// ---------- Types ----------
+
+export interface AnnotatedPdfOptions {
+  /** Insight cards for the appendix; none or empty adds no appendix */
+  insights?: Insight[] | null;
+  /** Shown on the appendix's first page */
+  fileName?: string;
+}
+
+// ---------- Config ----------
+
+/** Size of a sticky-note icon, in points */
+const NOTE_ICON_SIZE = 20;
+/** Text annotation flags: Print, NoZoom, NoRotate */
+const NOTE_FLAGS = 4 | 8 | 16;
+/** Highlight annotation flags: Print */
+const HIGHLIGHT_FLAGS = 4;
+
+/** Appendix pages are US Letter, in points */
+const APPENDIX_PAGE = { width: 612, height: 792 };
+const APPENDIX_MARGIN = 56;
+
+// ---------- Annotations ----------
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [
+    (value >> 16) / 255,
+    ((value >> 8) & 0xff) / 255,
+    (value & 0xff) / 255,
+  ];
+}
+
+/** Quad corners in PDF user space (y up): left, right, top, bottom */
+function toPageSpace(page: PDFPage, quads: Annotation["quads"]) {
+  const box = page.getCropBox();
+  const angle = page.getRotation().angle;
+  return quads.map((quad) => {
+    const q = rotateQuad(quad, 360 - angle);
+    const left = box.x + q.x * box.width;
+    const top = box.y + box.height - q.y * box.height;
+    return {
+      left,
+      right: left + q.width * box.width,
+      top,
+      bottom: top - q.height * box.height,
+    };
+  });
+}
+
+function addAnnotation(
+  pdf: PDFDocument,
+  page: PDFPage,
+  annotation: Annotation
+): void {
+  const lines = toPageSpace(page, annotation.quads);
+  if (lines.length === 0) return;
+
+  const context = pdf.context;
+  const color = hexToRgb(ANNOTATION_COLOR_HEX[annotation.color]);
+  const rect = [
+    Math.min(...lines.map((l) => l.left)),
+    Math.min(...lines.map((l) => l.bottom)),
+    Math.max(...lines.map((l) => l.right)),
+    Math.max(...lines.map((l) => l.top)),
+  ];
+  const modified = PDFString.fromDate(new Date(annotation.updated_at));
+
+  // Multiply-blended fill of each line, as readers draw highlights
+  const appearance = context.formXObject(
+    [
+      pushGraphicsState(),
+      setGraphicsState("GS0"),
+      setFillingRgbColor(...color),
+      ...lines.flatMap((l) => [
+        moveTo(l.left, l.top),
+        lineTo(l.right, l.top),
+        lineTo(l.right, l.bottom),
+        lineTo(l.left, l.bottom),
+        closePath(),
+      ]),
+      fill(),
+      popGraphicsState(),
+    ],
+    {
+      BBox: rect,
+      Resources: { ExtGState: { GS0: { BM: "Multiply" } } },
+    }
+  );
+
+  const highlight = context.obj({
+    Type: "Annot",
+    Subtype: "Highlight",
+    Rect: rect,
+    // Per line: top-left, top-right, bottom-left, bottom-right
+    QuadPoints: lines.flatMap((l) => [
+      l.left,
+      l.top,
+      l.right,
+      l.top,
+      l.left,
+      l.bottom,
+      l.right,
+      l.bottom,
+    ]),
+    C: color,
+    F: HIGHLIGHT_FLAGS,
+    M: modified,
+    AP: { N: context.register(appearance) },
+  });
+  page.node.addAnnot(context.register(highlight));
+
+  if (!annotation.note) return;
+
+  // The note sits just right of the highlight's first line, on the page
+  const [first] = lines;
+  const box = page.getCropBox();
+  const x = Math.min(first!.right + 4, box.x + box.width - NOTE_ICON_SIZE);
+  const note = context.obj({
+    Type: "Annot",
+    Subtype: "Text",
+    Rect: [x, first!.top - NOTE_ICON_SIZE, x + NOTE_ICON_SIZE, first!.top],
+    Contents: PDFHexString.fromText(annotation.note),
+    Name: "Comment",
+    Open: false,
+    C: color,
+    F: NOTE_FLAGS,
+    M: modified,
+  });
+  page.node.addAnnot(context.register(note));
+}
+
+// ---------- Insights appendix ----------
+
+/** Drop characters the standard fonts can't encode (WinAnsi only) */
+function encodable(font: PDFFont): (text: string) => string {
+  const supported = new Set(font.getCharacterSet());
+  return (text) =>
+    Array.from(text.normalize("NFKC"))
+      .map((ch) =>
+        /\s/.test(ch) ? " " : supported.has(ch.codePointAt(0)!) ? ch : "?"
+      )
+      .join("");
+}
+
+/** Break text into lines no wider than `maxWidth` */
+function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (!line || font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/** Append pages listing each insight card and the pages it cites */
+async function appendInsights(
+  pdf: PDFDocument,
+  insights: Insight[],
+  fileName: string | undefined
+): Promise<void> {
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const clean = encodable(regular);
+  const width = APPENDIX_PAGE.width - 2 * APPENDIX_MARGIN;
+
+  let page = pdf.addPage([APPENDIX_PAGE.width, APPENDIX_PAGE.height]);
+  let y = APPENDIX_PAGE.height - APPENDIX_MARGIN;
+
+  const write = (
+    text: string,
+    font: PDFFont,
+    size: number,
+    color = rgb(0.1, 0.1, 0.1)
+  ) => {
+    for (const line of wrapText(clean(text), font, size, width)) {
+      if (y - size < APPENDIX_MARGIN) {
+        page = pdf.addPage([APPENDIX_PAGE.width, APPENDIX_PAGE.height]);
+        y = APPENDIX_PAGE.height - APPENDIX_MARGIN;
+      }
+      y -= size * 1.3;
+      page.drawText(line, { x: APPENDIX_MARGIN, y, size, font, color });
+    }
+  };
+
+  write("Insights", bold, 18);
+  if (fileName) write(fileName, regular, 10, rgb(0.45, 0.45, 0.45));
+  y -= 12;
+
+  insights.forEach((insight, i) => {
+    write(`${i + 1}. ${insight.title}`, bold, 12);
+    y -= 2;
+    write(insight.description, regular, 10, rgb(0.25, 0.25, 0.25));
+    const pages = [...new Set(insight.sources.map((s) => s.page))].sort(
+      (a, b) => a - b
+    );
+    if (pages.length > 0) {
+      y -= 2;
+      write(
+        `${pages.length === 1 ? "Page" : "Pages"} ${pages.join(", ")}`,
+        regular,
+        9,
+        rgb(0.15, 0.35, 0.75)
+      );
+    }
+    y -= 12;
+  });
+}
+
+// ---------- Export ----------
+
+/**
+ * Copy `original` with the annotations written into it, plus an insights
+ * appendix when `options.insights` has any. Annotations on pages the PDF
+ * doesn't have are skipped.
+ */
+export async function buildAnnotatedPdf(
+  original: Uint8Array,
+  annotations: Annotation[],
+  options: AnnotatedPdfOptions = {}
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.load(original, { updateMetadata: false });
+  const pages = pdf.getPages();
+
+  for (const annotation of annotations) {
+    const page = pages[annotation.page - 1];
+    if (page) addAnnotation(pdf, page, annotation);
+  }
+
+  if (options.insights && options.insights.length > 0) {
+    await appendInsights(pdf, options.insights, options.fileName);
+  }
+
+  return pdf.save();
+}
@@ -0,0 +1,12 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+
+/** Model used for insight extraction and chat answers */
+export const GEMINI_TEXT_MODEL = "gemini-2.5-flash";
+
+export function getGeminiClient(): GoogleGenerativeAI {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY environment variable is not set.");
+  }
+  return new GoogleGenerativeAI(apiKey);
+}
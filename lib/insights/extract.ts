@@ -0,0 +1,171 @@
+import type { LlmRequest } from "@/lib/llm";
+import type { createClient } from "@/lib/supabase/server";
+import type { Insight } from "@/src/services/insights";
+
+// Shared by group extraction (see ./generate) and the streaming insights
+// route.
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// ---------- Config ----------
+
+/** Number of chunks to process per batch */
+export const CHUNKS_PER_GROUP = 10;
+
+/**
+ * Prompt for extracting insights from a group of chunks.
+ */
+const EXTRACT_PROMPT = `You are an expert research assistant. Given text chunks from a section of a PDF document, extract every key insight you find.
+
+For each insight:
+1. **Extract the insight** — a concise finding, method, conclusion, claim, argument, or implication from the text, grounded in direct quotes.
+2. **Suggest research directions** — using your knowledge of the broader academic landscape, suggest 2-4 directions the reader should explore to deepen their understanding.
+
+Research direction categories:
+- "Adjacent Field" — a neighboring discipline or subfield that studies related phenomena
+- "Alternative Approach" — a different methodology or framework for the same question
+- "Contrasting Theory" — a competing or complementary theoretical perspective
+- "Cross-Discipline" — an unexpected connection to a different field entirely
+
+Rules:
+- Extract ALL meaningful insights from the provided chunks — do NOT limit yourself to a fixed number
+- Typically expect 2-5 insights per group of chunks, but extract more if the content is dense
+- Each insight needs a concise title (max 10 words) and a clear description (2-3 sentences)
+- Include 1-3 source citations per insight with page number, section label, and a short direct quote
+- For the section label, use the section shown in the chunk header; only when a chunk has no section, write a short descriptive label
+- Each insight should be distinct — do not repeat the same point
+- 2-4 research directions per insight, be specific — name actual fields, theories, or study types
+
+Return valid JSON only, no markdown fences. Use this exact structure:
+[
+  {
+    "title": "string",
+    "description": "string",
+    "sources": [
+      { "type": "local", "page": number, "section": "string", "quote": "string" }
+    ],
+    "researchDirections": [
+      { "category": "Adjacent Field | Alternative Approach | Contrasting Theory | Cross-Discipline", "title": "string", "description": "string" }
+    ]
+  }
+]`;
+
+// ---------- Raw insight type (before ID assignment) ----------
+
+export interface RawInsight {
+  title: string;
+  description: string;
+  sources: Array<{
+    type: "local";
+    page: number;
+    section: string;
+    quote: string;
+    /** Set by the quote verifier */
+    verified?: boolean;
+  }>;
+  researchDirections: Array<{
+    category: string;
+    title: string;
+    description: string;
+  }>;
+}
+
+export interface GroupChunk {
+  chunk_index: number;
+  content: string;
+  page_start: number;
+  page_end: number;
+  /** Headings enclosing the chunk, outermost first */
+  section_path: string[] | null;
+}
+
+// ---------- Helpers ----------
+
+/** Convert a raw insight to a typed Insight with the given ID and document */
+export function toInsight(
+  item: RawInsight,
+  id: string,
+  documentId: string
+): Insight {
+  return {
+    id,
+    documentId,
+    title: item.title,
+    description: item.description,
+    sources: (item.sources ?? []).map((s) => ({
+      type: "local" as const,
+      documentId,
+      page: s.page,
+      section: s.section,
+      quote: s.quote,
+      ...(s.verified !== undefined && { verified: s.verified }),
+    })),
+    researchDirections: (item.researchDirections ?? []).map((rd) => ({
+      category: rd.category,
+      title: rd.title,
+      description: rd.description,
+    })),
+  };
+}
+
+/** Group-scoped IDs so they don't collide across groups */
+export function groupInsightId(
+  documentId: string,
+  groupIndex: number,
+  index: number
+): string {
+  return `insight-${documentId.slice(0, 8)}-g${groupIndex}-${index}`;
+}
+
+/** Fetch only the chunks belonging to one group (0-indexed) */
+export async function fetchGroupChunks(
+  supabase: SupabaseServerClient,
+  documentId: string,
+  groupIndex: number
+): Promise<GroupChunk[] | null> {
+  const offset = groupIndex * CHUNKS_PER_GROUP;
+  const { data: chunks, error } = await supabase
+    .from("document_chunks")
+    .select("chunk_index, content, page_start, page_end, section_path")
+    .eq("document_id", documentId)
+    .order("chunk_index", { ascending: true })
+    .range(offset, offset + CHUNKS_PER_GROUP - 1);
+
+  if (error || !chunks || chunks.length === 0) {
+    console.error(
+      `[insights] Failed to fetch chunks for group ${groupIndex}:`,
+      error?.message
+    );
+    return null;
+  }
+
+  return chunks as GroupChunk[];
+}
+
+/** LLM request extracting insights from a group prompt; add `json` to stream it */
+export function extractRequest(prompt: string): LlmRequest {
+  return {
+    system: EXTRACT_PROMPT,
+    prompt,
+    temperature: 0.4,
+    maxOutputTokens: 16000,
+  };
+}
+
+/** User prompt for one group of chunks */
+export function buildGroupPrompt(
+  chunks: GroupChunk[],
+  groupIndex: number,
+  totalGroups: number
+): string {
+  const context = chunks
+    .map((c) => {
+      const section = c.section_path?.length
+        ? `, Section: ${c.section_path.join(" > ")}`
+        : "";
+      return `[Chunk ${c.chunk_index}, Pages ${c.page_start}-${c.page_end}${section}]\n${c.content}`;
+    })
+    .join("\n\n---\n\n");
+
+  return `Here are text chunks from section ${groupIndex + 1} of ${totalGroups} of the document:\n\n${context}\n\nExtract all key insights from these chunks.`;
+}
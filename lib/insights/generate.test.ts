@@ -0,0 +1,188 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { scriptedLlmProvider, setLlmProvider } from "@/lib/llm";
+import type { Insight } from "@/src/services/insights";
+import { extractGroupInsights, mergeAndCacheInsights } from "./generate";
+
+const DOCUMENT_ID = "0123456789abcdef";
+
+const CHUNKS = [
+  {
+    chunk_index: 0,
+    content:
+      "Enzyme activity doubled when the temperature rose by ten degrees.",
+    page_start: 1,
+    page_end: 1,
+    section_path: ["Results"],
+  },
+  {
+    chunk_index: 1,
+    content: "Samples stored below freezing lost no measurable activity.",
+    page_start: 2,
+    page_end: 2,
+    section_path: ["Results"],
+  },
+];
+
+function insight(title: string, quote: string, page = 1) {
+  return {
+    title,
+    description: `About ${title}`,
+    sources: [{ type: "local", page, section: "Results", quote }],
+    researchDirections: [],
+  };
+}
+
+/**
+ * Just enough of the Supabase client for these functions: chunk reads
+ * through `range`, and insight cache writes through `upsert`.
+ */
+function fakeSupabase() {
+  const upserts: Array<{ document_id: string; insights: Insight[] }> = [];
+  const client = {
+    from(table: string) {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        order: () => query,
+        async range(from: number, to: number) {
+          assert.equal(table, "document_chunks");
+          return { data: CHUNKS.slice(from, to + 1), error: null };
+        },
+        async upsert(row: { document_id: string; insights: Insight[] }) {
+          assert.equal(table, "document_insights");
+          upserts.push(row);
+          return { error: null };
+        },
+      };
+      return query;
+    },
+  };
+  return {
+    supabase: client as unknown as Parameters<typeof extractGroupInsights>[0],
+    upserts,
+  };
+}
+
+/** Group-extracted insights, as the client passes them to the merge */
+function groupInsights(count: number): Insight[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `insight-${DOCUMENT_ID.slice(0, 8)}-g0-${i}`,
+    documentId: DOCUMENT_ID,
+    title: `Finding ${i}`,
+    description: `About finding ${i}`,
+    sources: [],
+    researchDirections: [],
+  }));
+}
+
+describe("extractGroupInsights", () => {
+  afterEach(() => setLlmProvider(null));
+
+  it("assigns group-scoped IDs and verifies quotes", async () => {
+    setLlmProvider(
+      scriptedLlmProvider([
+        JSON.stringify([
+          insight("Heat", "Enzyme activity doubled when the temperature rose"),
+          insight("Cold", "Samples stored below freezing lost no measurable"),
+          insight("Made up", "The enzyme glowed a faint shade of purple"),
+        ]),
+      ])
+    );
+    const { supabase } = fakeSupabase();
+
+    const insights = await extractGroupInsights(supabase, DOCUMENT_ID, 0, 3);
+    assert.deepEqual(
+      insights.map((i) => i.id),
+      ["insight-01234567-g0-0", "insight-01234567-g0-1"]
+    );
+    assert.ok(insights.every((i) => i.documentId === DOCUMENT_ID));
+    assert.ok(insights.every((i) => i.sources[0]!.verified));
+    // Cited page 1, but the quote is on page 2
+    assert.equal(insights[1]!.sources[0]!.page, 2);
+  });
+
+  it("names the section when nothing usable comes back", async () => {
+    setLlmProvider(scriptedLlmProvider(["not json", "still not json"]));
+    const { supabase } = fakeSupabase();
+
+    await assert.rejects(
+      extractGroupInsights(supabase, DOCUMENT_ID, 0, 3),
+      /Section 1 of 3 failed/
+    );
+  });
+});
+
+describe("mergeAndCacheInsights", () => {
+  afterEach(() => setLlmProvider(null));
+
+  it("re-IDs and caches a small set without merging", async () => {
+    const llm = scriptedLlmProvider([]);
+    setLlmProvider(llm);
+    const { supabase, upserts } = fakeSupabase();
+
+    const final = await mergeAndCacheInsights(
+      supabase,
+      DOCUMENT_ID,
+      groupInsights(3)
+    );
+    assert.equal(llm.requests.length, 0);
+    assert.deepEqual(
+      final.map((i) => i.id),
+      ["insight-01234567-0", "insight-01234567-1", "insight-01234567-2"]
+    );
+    assert.deepEqual(upserts, [{ document_id: DOCUMENT_ID, insights: final }]);
+  });
+
+  it("caches the merged insights with sequential IDs", async () => {
+    setLlmProvider(
+      scriptedLlmProvider([
+        JSON.stringify([
+          insight("Heat", "Enzyme activity doubled when the temperature rose"),
+          insight(
+            "Cold",
+            "Samples stored below freezing lost no measurable",
+            2
+          ),
+        ]),
+      ])
+    );
+    const { supabase, upserts } = fakeSupabase();
+
+    const final = await mergeAndCacheInsights(
+      supabase,
+      DOCUMENT_ID,
+      groupInsights(8)
+    );
+    assert.deepEqual(
+      final.map((i) => [i.id, i.title]),
+      [
+        ["insight-01234567-0", "Heat"],
+        ["insight-01234567-1", "Cold"],
+      ]
+    );
+    assert.ok(final.every((i) => i.sources[0]!.verified));
+    assert.deepEqual(upserts, [{ document_id: DOCUMENT_ID, insights: final }]);
+  });
+
+  it("caches the unmerged insights when the merge has a problem", async () => {
+    const merged = JSON.stringify([
+      insight("Heat", "Enzyme activity doubled when the temperature rose"),
+      insight("Cold", "Samples stored below freezing lost no measurable", 2),
+    ]);
+    // Cut off partway through the second item, on both attempts
+    const truncated = merged.slice(0, merged.indexOf("Cold") + 10);
+    const llm = scriptedLlmProvider([truncated, truncated]);
+    setLlmProvider(llm);
+    const { supabase, upserts } = fakeSupabase();
+
+    const original = groupInsights(8);
+    const final = await mergeAndCacheInsights(supabase, DOCUMENT_ID, original);
+    assert.equal(llm.requests.length, 2);
+    assert.deepEqual(
+      final.map((i) => [i.id, i.title]),
+      original.map((i, index) => [`insight-01234567-${index}`, i.title])
+    );
+    assert.deepEqual(upserts, [{ document_id: DOCUMENT_ID, insights: final }]);
+  });
+});
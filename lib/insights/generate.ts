@@ -0,0 +1,190 @@
+import type { createClient } from "@/lib/supabase/server";
+import type { Insight } from "@/src/services/insights";
+import {
+  buildGroupPrompt,
+  extractRequest,
+  fetchGroupChunks,
+  groupInsightId,
+  toInsight,
+} from "./extract";
+import type { RawInsight } from "./extract";
+import { generateInsightArray } from "./parse";
+import type { InsightParseResult } from "./parse";
+import { createQuoteVerifier } from "./verify";
+
+// Extracting insights group by group and merging them into the cached set.
+// The insights server actions call these with the request's Supabase client.
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// ---------- Config ----------
+
+/**
+ * Prompt for the merge/dedup pass.
+ */
+const MERGE_PROMPT = `You are an expert research assistant. You have been given a list of raw insights extracted from different sections of the same PDF document. Some insights may overlap, repeat, or cover the same topic from different angles.
+
+Your job:
+1. **Merge** insights that cover the same topic — combine their descriptions, sources, and research directions into a single stronger insight
+2. **Deduplicate** — remove redundant insights that say the same thing
+3. **Keep all distinct insights** — do NOT drop insights just to reduce count. If two insights cover genuinely different points, keep both.
+4. **Preserve all source citations** — when merging, keep all unique source citations from the originals
+5. **Preserve research directions** — when merging, keep the best 2-4 research directions (remove exact duplicates)
+
+Rules:
+- The final list should cover the ENTIRE document comprehensively
+- Every significant finding, method, conclusion, or argument should be represented
+- Titles should be concise (max 10 words), descriptions 2-3 sentences
+- Return valid JSON only, no markdown fences, same structure as input
+
+Return the consolidated insights as a JSON array:
+[
+  {
+    "title": "string",
+    "description": "string",
+    "sources": [
+      { "type": "local", "page": number, "section": "string", "quote": "string" }
+    ],
+    "researchDirections": [
+      { "category": "Adjacent Field | Alternative Approach | Contrasting Theory | Cross-Discipline", "title": "string", "description": "string" }
+    ]
+  }
+]`;
+
+// ---------- Helpers ----------
+
+/** Convert raw insights to typed Insight objects with IDs */
+function assignIds(raw: RawInsight[], documentId: string): Insight[] {
+  return raw.map((item, index) =>
+    toInsight(item, `insight-${documentId.slice(0, 8)}-${index}`, documentId)
+  );
+}
+
+async function cacheInsights(
+  supabase: SupabaseServerClient,
+  documentId: string,
+  insights: Insight[]
+): Promise<void> {
+  await supabase.from("document_insights").upsert(
+    {
+      document_id: documentId,
+      insights: insights as unknown as Record<string, unknown>[],
+    },
+    { onConflict: "document_id" }
+  );
+}
+
+// ---------- Extraction ----------
+
+/**
+ * Extract insights for a single group of chunks (0-indexed).
+ * Returns typed Insight[] with IDs so the client can render immediately.
+ * A truncated response yields the insights before the cut; when nothing
+ * usable comes back, throws an error naming the section. Quotes are
+ * checked against the document text (see `lib/insights/verify`).
+ */
+export async function extractGroupInsights(
+  supabase: SupabaseServerClient,
+  documentId: string,
+  groupIndex: number,
+  totalGroups: number
+): Promise<Insight[]> {
+  const chunks = await fetchGroupChunks(supabase, documentId, groupIndex);
+  if (!chunks) return [];
+
+  console.log(
+    `[insights] Extracting group ${groupIndex + 1}/${totalGroups} (${chunks.length} chunks, pages ${chunks[0]?.page_start}-${chunks[chunks.length - 1]?.page_end})`
+  );
+
+  const label = `Section ${groupIndex + 1} of ${totalGroups}`;
+  let result: InsightParseResult;
+  try {
+    result = await generateInsightArray(
+      extractRequest(buildGroupPrompt(chunks, groupIndex, totalGroups)),
+      label
+    );
+  } catch (err) {
+    throw new Error(
+      `${label} failed: ${err instanceof Error ? err.message : "unknown error"}`
+    );
+  }
+
+  if (result.insights.length === 0 && result.problem) {
+    throw new Error(`${label} failed: ${result.problem}`);
+  }
+  const raw = await createQuoteVerifier(supabase, documentId, chunks).verify(
+    result.insights
+  );
+
+  console.log(
+    `[insights] Group ${groupIndex + 1}: extracted ${raw.length} insights${result.problem ? ` (partial: ${result.problem})` : ""}`
+  );
+
+  return raw.map((item, i) =>
+    toInsight(item, groupInsightId(documentId, groupIndex, i), documentId)
+  );
+}
+
+/**
+ * Merge and deduplicate insights from all groups, then cache the final result.
+ * Called by the client after all groups have been extracted.
+ * For small sets (<=6), skips the LLM merge and just caches directly.
+ * Returns the final merged + cached insights. Merged quotes are verified
+ * again, since the merge may have reworded them.
+ */
+export async function mergeAndCacheInsights(
+  supabase: SupabaseServerClient,
+  documentId: string,
+  allInsights: Insight[]
+): Promise<Insight[]> {
+  // Small set — no merge needed, just re-ID and cache
+  if (allInsights.length <= 6) {
+    console.log(
+      `[insights] Only ${allInsights.length} insights, skipping merge`
+    );
+    const final = allInsights.map((item, index) => ({
+      ...item,
+      id: `insight-${documentId.slice(0, 8)}-${index}`,
+    }));
+    await cacheInsights(supabase, documentId, final);
+    return final;
+  }
+
+  console.log(`[insights] Merging ${allInsights.length} raw insights...`);
+
+  // Strip IDs for the merge prompt — they'll be re-assigned after
+  const stripped = allInsights.map(({ id: _id, ...rest }) => rest);
+
+  const result = await generateInsightArray(
+    {
+      system: MERGE_PROMPT,
+      prompt: `Here are all the raw insights extracted from different sections of the document:\n\n${JSON.stringify(stripped, null, 2)}\n\nMerge overlapping insights and deduplicate while preserving all distinct findings.`,
+      temperature: 0.3,
+      maxOutputTokens: 32000,
+    },
+    "Merge"
+  );
+
+  // A partial merge would silently drop insights, so only a complete one
+  // replaces the originals
+  const merged = result.problem
+    ? null
+    : await createQuoteVerifier(supabase, documentId).verify(result.insights);
+  if (!merged || merged.length === 0) {
+    console.warn("[insights] Unusable merge response, caching unmerged");
+    const final = allInsights.map((item, index) => ({
+      ...item,
+      id: `insight-${documentId.slice(0, 8)}-${index}`,
+    }));
+    await cacheInsights(supabase, documentId, final);
+    return final;
+  }
+
+  console.log(
+    `[insights] Merge complete: ${allInsights.length} → ${merged.length} insights`
+  );
+
+  const final = assignIds(merged, documentId);
+  await cacheInsights(supabase, documentId, final);
+  return final;
+}
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { scriptedLlmProvider, setLlmProvider } from "@/lib/llm";
+import { toMessages } from "@/lib/llm/provider";
+import { generateInsightArray, parseInsightResponse } from "./parse";
+
+const REQUEST = { prompt: "Extract insights as a JSON array." };
+
+function insight(title: string) {
+  return {
+    title,
+    description: `About ${title}`,
+    sources: [{ page: 2, section: "Results", quote: `${title} was seen` }],
+    researchDirections: [],
+  };
+}
+
+const complete = JSON.stringify([insight("One"), insight("Two")]);
+/** The same array cut off partway through its second item */
+const truncated = complete.slice(0, complete.indexOf("Two") + 10);
+
+describe("parseInsightResponse", () => {
+  it("parses a JSON array, with or without a Markdown fence", () => {
+    for (const response of [complete, "```json\n" + complete + "\n```"]) {
+      const result = parseInsightResponse(response);
+      assert.equal(result.problem, null);
+      assert.deepEqual(
+        result.insights.map((i) => i.title),
+        ["One", "Two"]
+      );
+    }
+  });
+
+  it("salvages the complete items of a truncated response", () => {
+    const result = parseInsightResponse(truncated);
+    assert.deepEqual(
+      result.insights.map((i) => i.title),
+      ["One"]
+    );
+    assert.match(result.problem ?? "", /cut off/);
+  });
+
+  it("drops invalid items and bad sources", () => {
+    const result = parseInsightResponse(
+      JSON.stringify([
+        { title: "No description" },
+        { ...insight("Kept"), sources: [{ page: 0, quote: "x" }] },
+      ])
+    );
+    assert.equal(result.rejected, 1);
+    assert.equal(result.insights[0]!.title, "Kept");
+    assert.deepEqual(result.insights[0]!.sources, []);
+  });
+
+  it("unwraps an object holding an insights array", () => {
+    const result = parseInsightResponse(
+      JSON.stringify({ insights: [insight("One")] })
+    );
+    assert.equal(result.insights.length, 1);
+  });
+});
+
+describe("generateInsightArray", () => {
+  afterEach(() => setLlmProvider(null));
+
+  it("asks once when the first response is usable", async () => {
+    const llm = scriptedLlmProvider([complete]);
+    setLlmProvider(llm);
+
+    const result = await generateInsightArray(REQUEST, "test");
+    assert.equal(result.insights.length, 2);
+    assert.equal(llm.requests.length, 1);
+    assert.equal(llm.requests[0]!.json, true);
+  });
+
+  it("retries a truncated response once with a repair note", async () => {
+    const llm = scriptedLlmProvider([truncated, complete]);
+    setLlmProvider(llm);
+
+    const result = await generateInsightArray(REQUEST, "test");
+    assert.equal(result.problem, null);
+    assert.equal(result.insights.length, 2);
+    assert.equal(llm.requests.length, 2);
+    const repair = toMessages(llm.requests[1]!.prompt).at(-1)!.content;
+    assert.match(repair, /could not be used: the response was cut off/);
+  });
+
+  it("keeps the better attempt when the retry fails too", async () => {
+    const llm = scriptedLlmProvider([truncated, "not json at all"]);
+    setLlmProvider(llm);
+
+    const result = await generateInsightArray(REQUEST, "test");
+    assert.deepEqual(
+      result.insights.map((i) => i.title),
+      ["One"]
+    );
+    assert.ok(result.problem);
+  });
+
+  it("only requests the repair for a response already received", async () => {
+    const llm = scriptedLlmProvider([complete]);
+    setLlmProvider(llm);
+
+    const result = await generateInsightArray(REQUEST, "test", truncated);
+    assert.equal(result.insights.length, 2);
+    assert.equal(llm.requests.length, 1);
+  });
+});
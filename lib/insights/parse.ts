@@ -0,0 +1,182 @@
+import { getLlmProvider } from "@/lib/llm";
+import type { LlmRequest } from "@/lib/llm";
+import { parseJsonResponse, toMessages } from "@/lib/llm/provider";
+import type { RawInsight } from "./extract";
+import { JsonArrayScanner } from "./partial-json";
+
+// Turning model output into RawInsights without trusting it: every item is
+// validated at runtime, complete items are salvaged from a response cut
+// off at maxOutputTokens, and an unusable response gets one repair retry.
+
+// ---------- Types ----------
+
+export interface InsightParseResult {
+  insights: RawInsight[];
+  /** Items dropped for failing validation */
+  rejected: number;
+  /** Why the response as a whole was unusable or incomplete; null if fine */
+  problem: string | null;
+}
+
+// ---------- Validation ----------
+
+function text(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function validateSource(value: unknown): RawInsight["sources"][number] | null {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  const page = Number(source.page);
+  const quote = text(source.quote);
+  if (!Number.isInteger(page) || page < 1 || !quote) return null;
+  return {
+    type: "local",
+    page,
+    section: text(source.section) ?? "",
+    quote,
+  };
+}
+
+function validateDirection(
+  value: unknown
+): RawInsight["researchDirections"][number] | null {
+  if (!value || typeof value !== "object") return null;
+  const direction = value as Record<string, unknown>;
+  const title = text(direction.title);
+  if (!title) return null;
+  return {
+    category: text(direction.category) ?? "Adjacent Field",
+    title,
+    description: text(direction.description) ?? "",
+  };
+}
+
+/**
+ * Check one item against the RawInsight shape. Malformed sources and
+ * research directions are dropped; an item without a title or description
+ * is rejected with the reason.
+ */
+export function validateRawInsight(
+  value: unknown
+): { insight: RawInsight } | { error: string } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { error: "item is not an object" };
+  }
+  const item = value as Record<string, unknown>;
+  const title = text(item.title);
+  const description = text(item.description);
+  if (!title) return { error: "missing title" };
+  if (!description) return { error: `"${title}" has no description` };
+
+  const list = (v: unknown) => (Array.isArray(v) ? v : []);
+  return {
+    insight: {
+      title,
+      description,
+      sources: list(item.sources)
+        .map(validateSource)
+        .filter((s) => s !== null),
+      researchDirections: list(item.researchDirections)
+        .map(validateDirection)
+        .filter((d) => d !== null),
+    },
+  };
+}
+
+// ---------- Parsing ----------
+
+/**
+ * Parse a response that should be a JSON array of insights. When it isn't
+ * valid JSON (usually because it was truncated), the complete objects
+ * before the cut are salvaged and `problem` says what happened.
+ */
+export function parseInsightResponse(response: string): InsightParseResult {
+  let items: unknown[];
+  let problem: string | null = null;
+
+  try {
+    const parsed = parseJsonResponse<unknown>(response);
+    if (parsed === null) {
+      return { insights: [], rejected: 0, problem: "the response was empty" };
+    }
+    // Some models wrap the array in an object despite the prompt
+    const wrapped = (parsed as { insights?: unknown }).insights;
+    if (Array.isArray(parsed)) items = parsed;
+    else if (Array.isArray(wrapped)) items = wrapped;
+    else {
+      return {
+        insights: [],
+        rejected: 0,
+        problem: "the response was not a JSON array",
+      };
+    }
+  } catch {
+    items = new JsonArrayScanner<unknown>().push(response);
+    problem = /\]\s*(```)?\s*$/.test(response)
+      ? "the response was not valid JSON"
+      : "the response was cut off before the JSON array ended";
+  }
+
+  const insights: RawInsight[] = [];
+  const errors: string[] = [];
+  for (const item of items) {
+    const checked = validateRawInsight(item);
+    if ("insight" in checked) insights.push(checked.insight);
+    else errors.push(checked.error);
+  }
+
+  if (!problem && items.length > 0 && insights.length === 0) {
+    problem = `no insight passed validation (${errors[0]})`;
+  }
+  return { insights, rejected: errors.length, problem };
+}
+
+// ---------- Generation ----------
+
+/** The same request, told what was wrong with the previous answer */
+function repairRequest(request: LlmRequest, problem: string): LlmRequest {
+  const note = `Your previous response could not be used: ${problem}. Respond again with the complete JSON array only. If everything doesn't fit, write fewer, shorter insights rather than stopping mid-array.`;
+  const messages = toMessages(request.prompt);
+  const last = messages[messages.length - 1]!;
+  return {
+    ...request,
+    prompt: [
+      ...messages.slice(0, -1),
+      { ...last, content: `${last.content}\n\n${note}` },
+    ],
+    json: true,
+  };
+}
+
+/**
+ * Ask for a JSON array of insights, validating and salvaging the response.
+ * If it is unusable or incomplete, the request is retried once with a
+ * repair note, keeping whichever attempt yielded more insights.
+ * `firstResponse` supplies an answer already received (e.g. streamed), so
+ * only the repair is requested. `label` names the call in logs.
+ */
+export async function generateInsightArray(
+  request: LlmRequest,
+  label: string,
+  firstResponse?: string
+): Promise<InsightParseResult> {
+  const provider = getLlmProvider();
+  const first = parseInsightResponse(
+    firstResponse ??
+      (await provider.generateText({ ...request, json: true }))
+  );
+  if (first.rejected > 0) {
+    console.warn(`[insights] ${label}: dropped ${first.rejected} invalid insights`);
+  }
+  if (!first.problem) return first;
+
+  console.warn(`[insights] ${label}: ${first.problem}; retrying once`);
+  const retry = parseInsightResponse(
+    await provider.generateText(repairRequest(request, first.problem))
+  );
+  if (!retry.problem) return retry;
+
+  console.warn(`[insights] ${label}: retry failed too: ${retry.problem}`);
+  return retry.insights.length > first.insights.length ? retry : first;
+}
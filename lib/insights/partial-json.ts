@@ -0,0 +1,61 @@
+/**
+ * Incrementally scans a streamed JSON array (`[ {...}, {...} ]`) and yields
+ * each top-level object as soon as its closing brace arrives.
+ *
+ * Usage:
+ *   const scanner = new JsonArrayScanner<RawInsight>();
+ *   for await (const chunk of stream) {
+ *     for (const item of scanner.push(chunk.text())) render(item);
+ *   }
+ */
+export class JsonArrayScanner<T> {
+  private buffer = "";
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private objectStart = -1;
+
+  /** Feed more text; returns the objects completed by this chunk */
+  push(text: string): T[] {
+    this.buffer += text;
+    const completed: T[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const ch = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === "\\") this.escaped = true;
+        else if (ch === '"') this.inString = false;
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inString = true;
+      } else if (ch === "{" || ch === "[") {
+        // Depth 1 is inside the outer array — an object starting there is an item
+        if (ch === "{" && this.depth === 1) this.objectStart = this.position;
+        this.depth++;
+      } else if (ch === "}" || ch === "]") {
+        this.depth--;
+        if (ch === "}" && this.depth === 1 && this.objectStart >= 0) {
+          const raw = this.buffer.slice(this.objectStart, this.position + 1);
+          this.objectStart = -1;
+          try {
+            completed.push(JSON.parse(raw) as T);
+          } catch {
+            // Malformed item — skip it, the rest of the array may still parse
+          }
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  /** Everything received so far */
+  get text(): string {
+    return this.buffer;
+  }
+}
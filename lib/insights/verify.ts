@@ -0,0 +1,208 @@
+import type { createClient } from "@/lib/supabase/server";
+import type { RawInsight } from "./extract";
+
+// Checking that each insight's quotes really appear in the document. A
+// quote is fuzzy-matched against the stored chunk text:
+//
+//   - found (nearly) verbatim: marked verified, and its page corrected if
+//     the model cited the wrong one
+//   - found approximately (paraphrased, elided): kept, not verified
+//   - not found: dropped as fabricated, along with any insight left with
+//     no quotes at all
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// ---------- Types ----------
+
+/** The chunk fields quotes are matched against */
+export interface VerifiableChunk {
+  content: string;
+  page_start: number;
+  page_end: number;
+}
+
+export interface QuoteVerifier {
+  /** Verify every source of `insights`, returning the ones that survive */
+  verify(insights: RawInsight[]): Promise<RawInsight[]>;
+}
+
+// ---------- Config ----------
+
+/** Share of quote words that must match for a quote to count as verified */
+const VERIFIED_SCORE = 0.9;
+/** Below this share the quote is treated as fabricated */
+const FABRICATED_SCORE = 0.6;
+/** Quotes shorter than this many words must match exactly */
+const MIN_FUZZY_WORDS = 4;
+/** Chunks loaded per request when reading the whole document */
+const CHUNKS_PAGE_SIZE = 500;
+
+// ---------- Matching ----------
+
+function words(text: string): string[] {
+  return text.normalize("NFKC").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * The best share of the quote's words found within any window of the
+ * chunk a little longer than the quote (so elisions still match).
+ */
+function matchScore(quote: string[], chunk: string[]): number {
+  const size = Math.min(chunk.length, quote.length + Math.ceil(quote.length / 5));
+  const needed = new Map<string, number>();
+  for (const w of quote) needed.set(w, (needed.get(w) ?? 0) + 1);
+
+  // Slide the window, tracking how many quote words it covers
+  const window = new Map<string, number>();
+  let covered = 0;
+  let best = 0;
+  for (let i = 0; i < chunk.length; i++) {
+    const added = chunk[i]!;
+    const count = window.get(added) ?? 0;
+    if (count < (needed.get(added) ?? 0)) covered++;
+    window.set(added, count + 1);
+
+    if (i >= size) {
+      const removed = chunk[i - size]!;
+      const left = window.get(removed)! - 1;
+      window.set(removed, left);
+      if (left < (needed.get(removed) ?? 0)) covered--;
+    }
+    if (i >= size - 1) best = Math.max(best, covered / quote.length);
+  }
+  return best;
+}
+
+/** Best-matching chunk for a quote, preferring the cited page on ties */
+function findQuote(
+  quote: string,
+  page: number,
+  chunks: Array<VerifiableChunk & { words: string[]; joined: string }>
+): { chunk: VerifiableChunk; score: number } | null {
+  const quoteWords = words(quote);
+  if (quoteWords.length === 0) return null;
+  const exactOnly = quoteWords.length < MIN_FUZZY_WORDS;
+  const joined = ` ${quoteWords.join(" ")} `;
+
+  let best: { chunk: VerifiableChunk; score: number } | null = null;
+  for (const chunk of chunks) {
+    const score = chunk.joined.includes(joined)
+      ? 1
+      : exactOnly
+        ? 0
+        : matchScore(quoteWords, chunk.words);
+    const onPage = page >= chunk.page_start && page <= chunk.page_end;
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && onPage)
+    ) {
+      best = { chunk, score };
+    }
+  }
+  return best;
+}
+
+// ---------- Verifier ----------
+
+/**
+ * A verifier for one document's insights. `nearbyChunks` (e.g. the group
+ * the insights were extracted from) are searched first; the rest of the
+ * document is only loaded when a quote isn't found among them.
+ */
+export function createQuoteVerifier(
+  supabase: SupabaseServerClient,
+  documentId: string,
+  nearbyChunks: VerifiableChunk[] = []
+): QuoteVerifier {
+  const prepare = (chunks: VerifiableChunk[]) =>
+    chunks.map((c) => {
+      const chunkWords = words(c.content);
+      return { ...c, words: chunkWords, joined: ` ${chunkWords.join(" ")} ` };
+    });
+  const nearby = prepare(nearbyChunks);
+  let all: Promise<ReturnType<typeof prepare> | null> | null = null;
+
+  /** Every chunk of the document, or null if they couldn't be read */
+  function loadAll() {
+    all ??= (async () => {
+      const chunks: VerifiableChunk[] = [];
+      for (let from = 0; ; from += CHUNKS_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("document_chunks")
+          .select("content, page_start, page_end")
+          .eq("document_id", documentId)
+          .order("chunk_index", { ascending: true })
+          .range(from, from + CHUNKS_PAGE_SIZE - 1);
+        if (error) {
+          console.error(
+            "[insights] Failed to load chunks for quote verification:",
+            error.message
+          );
+          return null;
+        }
+        chunks.push(...((data ?? []) as VerifiableChunk[]));
+        if (!data || data.length < CHUNKS_PAGE_SIZE) break;
+      }
+      return prepare(chunks);
+    })();
+    return all;
+  }
+
+  async function verifySource(
+    source: RawInsight["sources"][number]
+  ): Promise<RawInsight["sources"][number] | null> {
+    let match = findQuote(source.quote, source.page, nearby);
+    if (!match || match.score < VERIFIED_SCORE) {
+      const everything = await loadAll();
+      // Without the text nothing can be ruled out; keep it unverified
+      if (!everything) return { ...source, verified: false };
+      const wider = findQuote(source.quote, source.page, everything);
+      if (wider && (!match || wider.score > match.score)) match = wider;
+    }
+    if (!match || match.score < FABRICATED_SCORE) return null;
+
+    const { chunk, score } = match;
+    const onPage = source.page >= chunk.page_start && source.page <= chunk.page_end;
+    return {
+      ...source,
+      page: onPage ? source.page : chunk.page_start,
+      verified: score >= VERIFIED_SCORE,
+    };
+  }
+
+  return {
+    async verify(insights) {
+      let verified = 0;
+      let corrected = 0;
+      let dropped = 0;
+
+      const kept: RawInsight[] = [];
+      for (const insight of insights) {
+        const sources: RawInsight["sources"] = [];
+        for (const source of insight.sources) {
+          const checked = await verifySource(source);
+          if (!checked) {
+            dropped++;
+            continue;
+          }
+          if (checked.verified) verified++;
+          if (checked.page !== source.page) corrected++;
+          sources.push(checked);
+        }
+        // Keep insights that never cited anything; drop those whose every
+        // quote was fabricated
+        if (sources.length > 0 || insight.sources.length === 0) {
+          kept.push({ ...insight, sources });
+        }
+      }
+
+      if (dropped > 0 || corrected > 0) {
+        console.log(
+          `[insights] Quotes for ${documentId}: ${verified} verified, ${corrected} pages corrected, ${dropped} dropped as not found, ${insights.length - kept.length} insights dropped`
+        );
+      }
+      return kept;
+    },
+  };
+}
@@ -0,0 +1,204 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// ---------- Types ----------
+
+export interface ProcessingJob {
+  id: string;
+  document_id: string;
+  user_id: string;
+  status: "queued" | "running" | "succeeded" | "failed";
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ---------- Config ----------
+
+/** How long a claimed job is reserved for its worker before it can be reclaimed */
+export const LEASE_SECONDS = 300;
+/** First retry delay; doubles on each further attempt */
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 15 * 60_000;
+
+/** Postgres unique_violation — an active job already exists for the document */
+const UNIQUE_VIOLATION = "23505";
+
+// ---------- Queue operations ----------
+
+/**
+ * Enqueue a processing job for a document. Succeeds without inserting when
+ * the document already has a queued or running job.
+ */
+export async function enqueueProcessingJob(
+  supabase: SupabaseClient,
+  documentId: string,
+  userId: string,
+): Promise<boolean> {
+  const { error } = await supabase.from("processing_jobs").insert({
+    document_id: documentId,
+    user_id: userId,
+  });
+
+  if (error && error.code !== UNIQUE_VIOLATION) {
+    console.error("[jobs] Enqueue failed:", error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Claim the next due job for this worker, or null if the queue is empty.
+ */
+export async function claimJob(
+  admin: SupabaseClient,
+  workerId: string,
+): Promise<ProcessingJob | null> {
+  const { data, error } = await admin.rpc("claim_processing_job", {
+    p_worker_id: workerId,
+    p_lease_seconds: LEASE_SECONDS,
+  });
+
+  if (error) {
+    console.error("[jobs] Claim failed:", error.message);
+    return null;
+  }
+
+  const [job] = (data ?? []) as ProcessingJob[];
+  return job ?? null;
+}
+
+/**
+ * Extend the lease on a running job. Only the worker holding the lease can
+ * renew it.
+ */
+export async function renewLease(
+  admin: SupabaseClient,
+  job: ProcessingJob,
+  workerId: string,
+): Promise<void> {
+  const { error } = await admin
+    .from("processing_jobs")
+    .update({
+      lease_expires_at: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("locked_by", workerId);
+
+  if (error) {
+    console.error("[jobs] Lease renewal failed:", error.message);
+  }
+}
+
+/**
+ * Apply a job's final update for this attempt, but only while this worker
+ * still holds it. Returns false when the lease was lost (the job was
+ * reclaimed by the sweeper or another worker), so the caller leaves the job
+ * and its document to the new owner.
+ */
+async function finishAttempt(
+  admin: SupabaseClient,
+  job: ProcessingJob,
+  workerId: string,
+  changes: Record<string, unknown>,
+): Promise<boolean> {
+  const { data, error } = await admin
+    .from("processing_jobs")
+    .update(changes)
+    .eq("id", job.id)
+    .eq("status", "running")
+    .eq("locked_by", workerId)
+    .select("id");
+
+  if (error) {
+    console.error("[jobs] Job update failed:", error.message);
+    return false;
+  }
+  if (!data || data.length === 0) {
+    console.warn(
+      `[jobs] ${workerId} lost the lease on job ${job.id}; leaving it to its new owner`,
+    );
+    return false;
+  }
+  return true;
+}
+
+export async function completeJob(
+  admin: SupabaseClient,
+  job: ProcessingJob,
+  workerId: string,
+): Promise<void> {
+  await finishAttempt(admin, job, workerId, {
+    status: "succeeded",
+    lease_expires_at: null,
+    last_error: null,
+    updated_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Record a failed attempt. Schedules a retry with exponential backoff while
+ * attempts remain (keeping the document in "processing"); otherwise fails
+ * the job and the document for good.
+ */
+export async function failJob(
+  admin: SupabaseClient,
+  job: ProcessingJob,
+  workerId: string,
+  error: string,
+): Promise<void> {
+  const now = new Date();
+
+  if (job.attempts >= job.max_attempts) {
+    console.error(
+      `[jobs] Job ${job.id} failed after ${job.attempts} attempts:`,
+      error,
+    );
+    const updated = await finishAttempt(admin, job, workerId, {
+      status: "failed",
+      lease_expires_at: null,
+      last_error: error,
+      updated_at: now.toISOString(),
+    });
+    if (!updated) return;
+
+    await admin
+      .from("documents")
+      .update({
+        status: "failed",
+        processing_error: error,
+        updated_at: now.toISOString(),
+      })
+      .eq("id", job.document_id);
+    return;
+  }
+
+  const delay = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1),
+    RETRY_MAX_DELAY_MS,
+  );
+  console.warn(
+    `[jobs] Job ${job.id} attempt ${job.attempts} failed, retrying in ${delay / 1000}s:`,
+    error,
+  );
+
+  const updated = await finishAttempt(admin, job, workerId, {
+    status: "queued",
+    run_at: new Date(now.getTime() + delay).toISOString(),
+    locked_by: null,
+    lease_expires_at: null,
+    last_error: error,
+    updated_at: now.toISOString(),
+  });
+  if (!updated) return;
+
+  await admin
+    .from("documents")
+    .update({ status: "processing", updated_at: now.toISOString() })
+    .eq("id", job.document_id);
+}
@@ -0,0 +1,173 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { enqueueProcessingJob } from "./queue";
+import type { ProcessingJob } from "./queue";
+
+// ---------- Config ----------
+
+/** A document untouched for this long with no active job is considered stuck */
+const STUCK_AFTER_MS = 10 * 60_000;
+/** Max documents of each kind recovered per sweep */
+const SWEEP_LIMIT = 50;
+
+export interface SweepSummary {
+  expiredLeases: number;
+  requeuedDocuments: number;
+  recoveredUploads: number;
+  failedUploads: number;
+}
+
+// ---------- Sweeps ----------
+
+/**
+ * Jobs whose worker died (lease expired while running) go back to the queue,
+ * or fail for good once they have used up their attempts.
+ */
+async function sweepExpiredLeases(admin: SupabaseClient): Promise<number> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await admin
+    .from("processing_jobs")
+    .select("*")
+    .eq("status", "running")
+    .lt("lease_expires_at", now)
+    .limit(SWEEP_LIMIT);
+
+  if (error || !data) return 0;
+
+  for (const job of data as ProcessingJob[]) {
+    const exhausted = job.attempts >= job.max_attempts;
+    const lastError = "Worker lease expired before the job finished.";
+
+    await admin
+      .from("processing_jobs")
+      .update({
+        status: exhausted ? "failed" : "queued",
+        run_at: now,
+        locked_by: null,
+        lease_expires_at: null,
+        last_error: lastError,
+        updated_at: now,
+      })
+      .eq("id", job.id)
+      .eq("status", "running");
+
+    if (exhausted) {
+      await admin
+        .from("documents")
+        .update({ status: "failed", processing_error: lastError, updated_at: now })
+        .eq("id", job.document_id);
+    }
+  }
+
+  return data.length;
+}
+
+/**
+ * Documents left in "processing" with no queued/running job (e.g. processed
+ * by a closed browser tab before the queue existed) get a fresh job.
+ */
+async function sweepStuckProcessing(
+  admin: SupabaseClient,
+  cutoff: string,
+): Promise<number> {
+  const { data: docs, error } = await admin
+    .from("documents")
+    .select("id, user_id")
+    .eq("status", "processing")
+    .lt("updated_at", cutoff)
+    .limit(SWEEP_LIMIT);
+
+  if (error || !docs || docs.length === 0) return 0;
+
+  const { data: active } = await admin
+    .from("processing_jobs")
+    .select("document_id")
+    .in(
+      "document_id",
+      docs.map((d) => d.id),
+    )
+    .in("status", ["queued", "running"]);
+
+  const hasJob = new Set((active ?? []).map((j) => j.document_id as string));
+  let requeued = 0;
+  for (const doc of docs) {
+    if (hasJob.has(doc.id)) continue;
+    if (await enqueueProcessingJob(admin, doc.id, doc.user_id)) requeued++;
+  }
+  return requeued;
+}
+
+/**
+ * Documents stuck in "uploading": if the file made it to Storage, finish the
+ * upload and enqueue processing; otherwise mark the document failed.
+ */
+async function sweepStuckUploads(
+  admin: SupabaseClient,
+  cutoff: string,
+): Promise<{ recovered: number; failed: number }> {
+  const { data: docs, error } = await admin
+    .from("documents")
+    .select("id, user_id, file_name")
+    .eq("status", "uploading")
+    .lt("created_at", cutoff)
+    .limit(SWEEP_LIMIT);
+
+  if (error || !docs) return { recovered: 0, failed: 0 };
+
+  let recovered = 0;
+  let failed = 0;
+  for (const doc of docs) {
+    const folder = `${doc.user_id}/${doc.id}`;
+    const { data: files } = await admin.storage.from("pdfs").list(folder);
+    const uploaded = files?.some((f) => f.name === doc.file_name);
+    const now = new Date().toISOString();
+
+    if (uploaded) {
+      await admin
+        .from("documents")
+        .update({
+          file_url: `${folder}/${doc.file_name}`,
+          status: "processing",
+          updated_at: now,
+        })
+        .eq("id", doc.id);
+      await enqueueProcessingJob(admin, doc.id, doc.user_id);
+      recovered++;
+    } else {
+      await admin
+        .from("documents")
+        .update({
+          status: "failed",
+          processing_error: "The upload did not complete. Please upload the PDF again.",
+          updated_at: now,
+        })
+        .eq("id", doc.id);
+      failed++;
+    }
+  }
+
+  return { recovered, failed };
+}
+
+/**
+ * Recover work that fell through the cracks. Safe to run on every worker
+ * invocation — each sweep only touches rows that are demonstrably stuck.
+ */
+export async function sweepStuckWork(admin: SupabaseClient): Promise<SweepSummary> {
+  const cutoff = new Date(Date.now() - STUCK_AFTER_MS).toISOString();
+
+  const expiredLeases = await sweepExpiredLeases(admin);
+  const requeuedDocuments = await sweepStuckProcessing(admin, cutoff);
+  const uploads = await sweepStuckUploads(admin, cutoff);
+
+  const summary = {
+    expiredLeases,
+    requeuedDocuments,
+    recoveredUploads: uploads.recovered,
+    failedUploads: uploads.failed,
+  };
+  if (Object.values(summary).some((n) => n > 0)) {
+    console.log("[jobs] Sweep recovered stuck work:", JSON.stringify(summary));
+  }
+  return summary;
+}
@@ -0,0 +1,109 @@
+import { randomUUID } from "crypto";
+import { after } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { runProcessingPipeline } from "@/lib/rag/pipeline";
+import { claimJob, completeJob, failJob, LEASE_SECONDS, renewLease } from "./queue";
+import { sweepStuckWork } from "./sweeper";
+import type { SweepSummary } from "./sweeper";
+
+// ---------- Types ----------
+
+export interface WorkerRunSummary {
+  workerId: string;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  sweep: SweepSummary;
+}
+
+// ---------- Config ----------
+
+/** Default time budget for one worker run; stays under typical function limits */
+const DEFAULT_BUDGET_MS = 240_000;
+
+// ---------- Worker ----------
+
+/**
+ * Drain the processing queue: sweep stuck work, then claim and run jobs one
+ * at a time until the queue is empty or the time budget is spent. The lease
+ * is renewed while a job runs so long documents are not reclaimed mid-run.
+ */
+export async function runWorker(
+  options: { budgetMs?: number; maxJobs?: number } = {},
+): Promise<WorkerRunSummary> {
+  const { budgetMs = DEFAULT_BUDGET_MS, maxJobs = Infinity } = options;
+  const admin = createAdminClient();
+  const workerId = `worker-${randomUUID().slice(0, 8)}`;
+  const deadline = Date.now() + budgetMs;
+
+  const summary: WorkerRunSummary = {
+    workerId,
+    processed: 0,
+    succeeded: 0,
+    failed: 0,
+    sweep: await sweepStuckWork(admin),
+  };
+
+  while (summary.processed < maxJobs && Date.now() < deadline) {
+    const job = await claimJob(admin, workerId);
+    if (!job) break;
+
+    console.log(
+      `[jobs] ${workerId} running job ${job.id} (document ${job.document_id}, attempt ${job.attempts}/${job.max_attempts})`,
+    );
+    summary.processed++;
+
+    // Clear any error from a previous attempt before starting over
+    await admin
+      .from("documents")
+      .update({ status: "processing", processing_error: null })
+      .eq("id", job.document_id);
+
+    const heartbeat = setInterval(
+      () => renewLease(admin, job, workerId),
+      (LEASE_SECONDS * 1000) / 3,
+    );
+
+    try {
+      // failJob decides whether the document fails or waits for a retry
+      const result = await runProcessingPipeline(admin, job.document_id, {
+        recordFailure: false,
+      });
+      if (result.success) {
+        await completeJob(admin, job, workerId);
+        summary.succeeded++;
+      } else {
+        await failJob(admin, job, workerId, result.error);
+        summary.failed++;
+      }
+    } catch (err) {
+      await failJob(
+        admin,
+        job,
+        workerId,
+        err instanceof Error ? err.message : "Unknown worker error.",
+      );
+      summary.failed++;
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Start a worker run after the current request's response has been sent,
+ * so newly enqueued work begins immediately without holding up the caller.
+ * The scheduled worker route picks up anything this run does not finish.
+ */
+export function kickWorker(): void {
+  after(async () => {
+    try {
+      const summary = await runWorker();
+      console.log("[jobs] Worker run finished:", JSON.stringify(summary));
+    } catch (err) {
+      console.error("[jobs] Worker run failed:", err);
+    }
+  });
+}
@@ -0,0 +1,73 @@
+import type {
+  GenerateContentRequest,
+  GenerativeModel,
+} from "@google/generative-ai";
+import { getGeminiClient, GEMINI_TEXT_MODEL } from "@/lib/gemini/client";
+import { getResilientClient } from "@/lib/resilience";
+import { parseJsonResponse, toMessages } from "./provider";
+import type { LlmProvider, LlmRequest } from "./provider";
+
+// ---------- Helpers ----------
+
+function getModel(model: string, request: LlmRequest): GenerativeModel {
+  return getGeminiClient().getGenerativeModel({
+    model,
+    ...(request.system && { systemInstruction: request.system }),
+    generationConfig: {
+      temperature: request.temperature,
+      maxOutputTokens: request.maxOutputTokens,
+      ...(request.json && { responseMimeType: "application/json" }),
+    },
+  });
+}
+
+function toContents(request: LlmRequest): GenerateContentRequest {
+  return {
+    contents: toMessages(request.prompt).map((m) => ({
+      role: m.role === "assistant" ? "model" : "user",
+      parts: [{ text: m.content }],
+    })),
+  };
+}
+
+// ---------- Provider ----------
+
+export function geminiLlmProvider(
+  model: string = GEMINI_TEXT_MODEL
+): LlmProvider {
+  async function generateText(request: LlmRequest): Promise<string> {
+    const result = await getResilientClient("gemini").run(
+      () =>
+        getModel(model, request).generateContent(toContents(request), {
+          signal: request.signal,
+        }),
+      request.signal
+    );
+    return result.response.text();
+  }
+
+  return {
+    name: "gemini",
+    model,
+    generateText,
+    async generateJson<T>(request: Omit<LlmRequest, "json">) {
+      return parseJsonResponse<T>(
+        await generateText({ ...request, json: true })
+      );
+    },
+    async *stream(request) {
+      // Only opening the stream is retried; text already yielded can't be
+      const chunks = getResilientClient("gemini").stream(async () => {
+        const result = await getModel(model, request).generateContentStream(
+          toContents(request),
+          { signal: request.signal }
+        );
+        return result.stream;
+      }, request.signal);
+      for await (const chunk of chunks) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    },
+  };
+}
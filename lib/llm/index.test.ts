@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { getLlmProvider, scriptedLlmProvider, setLlmProvider } from ".";
+
+describe("getLlmProvider", () => {
+  const previous = process.env.LLM_PROVIDER;
+
+  afterEach(() => {
+    setLlmProvider(null);
+    if (previous === undefined) delete process.env.LLM_PROVIDER;
+    else process.env.LLM_PROVIDER = previous;
+  });
+
+  it("selects the provider named by LLM_PROVIDER", () => {
+    process.env.LLM_PROVIDER = "openai";
+    assert.equal(getLlmProvider().name, "openai");
+    process.env.LLM_PROVIDER = "gemini";
+    assert.equal(getLlmProvider().name, "gemini");
+  });
+
+  it("rejects an unknown provider", () => {
+    process.env.LLM_PROVIDER = "nope";
+    assert.throws(() => getLlmProvider(), /Unknown LLM_PROVIDER/);
+  });
+
+  it("prefers a provider set with setLlmProvider", () => {
+    process.env.LLM_PROVIDER = "nope";
+    const llm = scriptedLlmProvider([]);
+    setLlmProvider(llm);
+    assert.equal(getLlmProvider(), llm);
+  });
+});
+
+describe("scriptedLlmProvider", () => {
+  it("replays responses in order and records requests", async () => {
+    const llm = scriptedLlmProvider([
+      "first",
+      (request) => `echo: ${request.prompt}`,
+    ]);
+    assert.equal(await llm.generateText({ prompt: "a" }), "first");
+    assert.equal(await llm.generateText({ prompt: "b" }), "echo: b");
+    assert.deepEqual(
+      llm.requests.map((r) => r.prompt),
+      ["a", "b"]
+    );
+    await assert.rejects(
+      llm.generateText({ prompt: "c" }),
+      /ran out of responses/
+    );
+  });
+
+  it("parses JSON and streams the response in pieces", async () => {
+    const llm = scriptedLlmProvider([
+      '```json\n{"ok": true}\n```',
+      "x".repeat(40),
+    ]);
+    assert.deepEqual(await llm.generateJson({ prompt: "a" }), { ok: true });
+    assert.equal(llm.requests[0]!.json, true);
+
+    const pieces: string[] = [];
+    for await (const piece of llm.stream({ prompt: "b" })) pieces.push(piece);
+    assert.ok(pieces.length > 1);
+    assert.equal(pieces.join(""), "x".repeat(40));
+  });
+});
@@ -0,0 +1,46 @@
+import { geminiLlmProvider } from "./gemini";
+import { openAiLlmProvider } from "./openai-compatible";
+import type { LlmProvider, LlmProviderKind } from "./provider";
+
+// Text generation behind one interface, so insights, chat and reranking
+// can run against Gemini, a self-hosted OpenAI-compatible server, or a
+// scripted fake in tests. Selected by environment variables:
+//
+//   LLM_PROVIDER  "gemini" (default) or "openai"
+//   LLM_MODEL     model name; defaults per provider
+//   LLM_BASE_URL  OpenAI-compatible server, default Ollama's /v1
+//   LLM_API_KEY   bearer token for the OpenAI-compatible server
+
+export type { LlmMessage, LlmProvider, LlmRequest } from "./provider";
+export { scriptedLlmProvider } from "./scripted";
+
+// ---------- Selection ----------
+
+let override: LlmProvider | null = null;
+
+/**
+ * Replace the configured provider, e.g. with `scriptedLlmProvider` in
+ * tests. Pass null to go back to the environment's choice.
+ */
+export function setLlmProvider(provider: LlmProvider | null): void {
+  override = provider;
+}
+
+/** The provider set with `setLlmProvider`, else the one configured by LLM_* */
+export function getLlmProvider(): LlmProvider {
+  if (override) return override;
+
+  const kind = (process.env.LLM_PROVIDER ?? "gemini") as LlmProviderKind;
+  switch (kind) {
+    case "gemini":
+      return geminiLlmProvider(process.env.LLM_MODEL);
+    case "openai":
+      return openAiLlmProvider({
+        baseUrl: process.env.LLM_BASE_URL,
+        model: process.env.LLM_MODEL,
+        apiKey: process.env.LLM_API_KEY,
+      });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}".`);
+  }
+}
@@ -0,0 +1,116 @@
+import { ApiError, getResilientClient } from "@/lib/resilience";
+import { parseJsonResponse, toMessages } from "./provider";
+import type { LlmProvider, LlmRequest } from "./provider";
+
+// Chat completions against any server speaking the OpenAI API: Ollama,
+// LM Studio, vLLM, llama.cpp's server, or OpenAI itself. JSON is asked for
+// in the prompt rather than with `response_format`, which only allows
+// objects while our prompts ask for arrays.
+
+// ---------- Config ----------
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1"; // Ollama
+const DEFAULT_MODEL = "llama3.1";
+
+// ---------- Helpers ----------
+
+/** Text deltas from a streamed chat completion */
+async function* readDeltas(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  // Server-sent events: one `data: {...}` line per delta, then [DONE]
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, "").trim();
+      if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+      const event = JSON.parse(data) as {
+        choices: Array<{ delta: { content?: string | null } }>;
+      };
+      const text = event.choices[0]?.delta.content;
+      if (text) yield text;
+    }
+  }
+}
+
+// ---------- Provider ----------
+
+export function openAiLlmProvider(options: {
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+}): LlmProvider {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, "");
+  const model = options.model ?? DEFAULT_MODEL;
+
+  const client = () => getResilientClient(`openai:${baseUrl}`);
+
+  async function complete(request: LlmRequest, stream: boolean) {
+    const messages = [
+      ...(request.system ? [{ role: "system", content: request.system }] : []),
+      ...toMessages(request.prompt),
+    ];
+    if (request.json) {
+      messages.push({
+        role: "system",
+        content: "Respond with valid JSON only, without Markdown fences.",
+      });
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await ApiError.fromResponse(response, "LLM server error");
+    }
+    return response;
+  }
+
+  async function generateText(request: LlmRequest): Promise<string> {
+    const data = await client().run(async () => {
+      const response = await complete(request, false);
+      return (await response.json()) as {
+        choices: Array<{ message: { content: string | null } }>;
+      };
+    }, request.signal);
+    return data.choices[0]?.message.content ?? "";
+  }
+
+  return {
+    name: "openai",
+    model,
+    generateText,
+    async generateJson<T>(request: Omit<LlmRequest, "json">) {
+      return parseJsonResponse<T>(
+        await generateText({ ...request, json: true })
+      );
+    },
+    async *stream(request) {
+      // Only opening the stream is retried; text already yielded can't be
+      yield* client().stream(
+        async () => readDeltas(await complete(request, true)),
+        request.signal
+      );
+    },
+  };
+}
@@ -0,0 +1,57 @@
+// The interface every LLM provider implements, and helpers they share.
+// See `lib/llm/index.ts` for how the provider is chosen.
+
+// ---------- Types ----------
+
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface LlmRequest {
+  /** System instruction */
+  system?: string;
+  /** A single user prompt, or a conversation ending with the user's turn */
+  prompt: string | LlmMessage[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Ask for a JSON response */
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  name: string;
+  model: string;
+  generateText(request: LlmRequest): Promise<string>;
+  /**
+   * Generate and parse a JSON response. Returns null when the model
+   * returns nothing; throws when it returns text that isn't JSON.
+   */
+  generateJson<T>(request: Omit<LlmRequest, "json">): Promise<T | null>;
+  /** Yield the response text as it is generated */
+  stream(request: LlmRequest): AsyncIterable<string>;
+}
+
+export type LlmProviderKind = "gemini" | "openai";
+
+// ---------- Helpers ----------
+
+/** The conversation of a request, with a plain prompt as one user turn */
+export function toMessages(prompt: LlmRequest["prompt"]): LlmMessage[] {
+  return typeof prompt === "string"
+    ? [{ role: "user", content: prompt }]
+    : prompt;
+}
+
+/**
+ * Parse a JSON response, tolerating the Markdown code fences some models
+ * wrap JSON in. Empty responses parse to null.
+ */
+export function parseJsonResponse<T>(text: string): T | null {
+  const trimmed = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  return trimmed ? (JSON.parse(trimmed) as T) : null;
+}
@@ -0,0 +1,63 @@
+import { parseJsonResponse } from "./provider";
+import type { LlmProvider, LlmRequest } from "./provider";
+
+// A fake provider that replays scripted responses in order, for
+// deterministic tests of code that calls the LLM:
+//
+//   const llm = scriptedLlmProvider(['[{"title": "..."}]']);
+//   setLlmProvider(llm);
+//   await extractGroupInsights(documentId, 0, 1);
+//   llm.requests[0].prompt; // what the code sent
+
+// ---------- Types ----------
+
+/** A fixed response, or one computed from the request */
+export type ScriptedResponse = string | ((request: LlmRequest) => string);
+
+export interface ScriptedLlmProvider extends LlmProvider {
+  /** Every request received, in order */
+  requests: LlmRequest[];
+}
+
+// ---------- Config ----------
+
+/** Streamed responses are split into pieces of this many characters */
+const STREAM_PIECE_LENGTH = 16;
+
+// ---------- Provider ----------
+
+export function scriptedLlmProvider(
+  responses: ScriptedResponse[]
+): ScriptedLlmProvider {
+  const requests: LlmRequest[] = [];
+  let next = 0;
+
+  function respond(request: LlmRequest): string {
+    requests.push(request);
+    const response = responses[next++];
+    if (response === undefined) {
+      throw new Error(
+        `Scripted LLM provider ran out of responses after ${responses.length}`
+      );
+    }
+    return typeof response === "function" ? response(request) : response;
+  }
+
+  return {
+    name: "scripted",
+    model: "scripted",
+    requests,
+    async generateText(request) {
+      return respond(request);
+    },
+    async generateJson<T>(request: Omit<LlmRequest, "json">) {
+      return parseJsonResponse<T>(respond({ ...request, json: true }));
+    },
+    async *stream(request) {
+      const text = respond(request);
+      for (let i = 0; i < text.length; i += STREAM_PIECE_LENGTH) {
+        yield text.slice(i, i + STREAM_PIECE_LENGTH);
+      }
+    },
+  };
+}
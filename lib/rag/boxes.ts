@@ -0,0 +1,63 @@
+import type { TextBox } from "./extract";
+
+// Page regions for extracted text. Layout works in pdf2json page units;
+// everything stored or sent to the viewer is a fraction of the page size,
+// so it scales to whatever size a page is rendered at.
+
+// ---------- Types ----------
+
+/** A page's size, in the same units as the positions on it */
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+/** Edges of a run of text, in page units */
+export interface Bounds {
+  x: number;
+  right: number;
+  y: number;
+  bottom: number;
+}
+
+// ---------- Boxes ----------
+
+/** Round to 4 decimal places, finer than any rendering needs */
+function roundFraction(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+/** The box around all of `bounds`, as fractions of the page size */
+export function toPageBox(bounds: Bounds[], page: PageSize): TextBox {
+  const left = Math.min(...bounds.map((b) => b.x));
+  const top = Math.min(...bounds.map((b) => b.y));
+  const right = Math.max(...bounds.map((b) => b.right));
+  const bottom = Math.max(...bounds.map((b) => b.bottom));
+  return {
+    x: roundFraction(left / page.width),
+    y: roundFraction(top / page.height),
+    width: roundFraction((right - left) / page.width),
+    height: roundFraction((bottom - top) / page.height),
+  };
+}
+
+/**
+ * The part of a one-line box holding characters `from`–`to` of its
+ * `length` (clamped to the line). Glyph widths aren't known, so the line
+ * is split in proportion to character counts.
+ */
+export function sliceBox(
+  box: TextBox,
+  from: number,
+  to: number,
+  length: number,
+): TextBox {
+  const first = Math.max(0, from);
+  const last = Math.min(length, to);
+  if (first === 0 && last === length) return box;
+  return {
+    ...box,
+    x: roundFraction(box.x + (box.width * first) / length),
+    width: roundFraction((box.width * (last - first)) / length),
+  };
+}
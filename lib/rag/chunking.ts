@@ -0,0 +1,319 @@
+import { tableToMarkdown } from "@/src/shared/utils";
+import { sliceBox } from "./boxes";
+import type { PageText, TextBox, TextSpan } from "./extract";
+import type { ExtractedTable } from "./tables";
+
+// ---------- Config ----------
+
+const CHUNK_SIZE = 800; // target tokens per chunk (roughly 1 token ≈ 4 chars)
+const CHUNK_OVERLAP = 100; // overlap in tokens for context continuity
+
+// ---------- Types ----------
+
+export interface TextChunk {
+  content: string;
+  page_start: number;
+  page_end: number;
+  token_count: number;
+  /** Headings enclosing the chunk, outermost first */
+  section_path: string[];
+  chunk_type: "text" | "table";
+  /** Position of the source table among the document's tables */
+  table_index: number | null;
+  /** Where the chunk's text sits on each page it spans */
+  locations: ChunkLocation[];
+}
+
+/** The part of a chunk on one page */
+export interface ChunkLocation {
+  page: number;
+  /**
+   * Character offsets into the page's extracted text; null for tables,
+   * which are kept out of the page text
+   */
+  start: number | null;
+  end: number | null;
+  /**
+   * Areas the text covers, as fractions of the page size. Empty when the
+   * page has no layout (OCR'd pages).
+   */
+  boxes: TextBox[];
+}
+
+interface Sentence {
+  text: string;
+  page: number;
+  /** Character offsets into the page's text */
+  start: number;
+  end: number;
+  section: string[];
+  /** Heading level when the sentence is a heading */
+  headingLevel?: number;
+}
+
+// ---------- Chunking ----------
+
+/**
+ * Rough token count estimate. ~4 chars per token for English text.
+ * Good enough for chunking; exact counts aren't critical.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * The heading level that marks major sections: the top level used by more
+ * than one heading. A level used once above it (the document title) is
+ * left out of section paths.
+ */
+function majorSectionLevel(pages: PageText[]): number {
+  const counts = new Map<number, number>();
+  for (const page of pages) {
+    for (const block of page.blocks ?? []) {
+      if (block.headingLevel === undefined) continue;
+      counts.set(block.headingLevel, (counts.get(block.headingLevel) ?? 0) + 1);
+    }
+  }
+  const repeated = [...counts].filter(([, n]) => n > 1).map(([level]) => level);
+  return repeated.length > 0 ? Math.min(...repeated) : 1;
+}
+
+/** Longest section path shared by every sentence */
+function commonSection(sentences: Sentence[]): string[] {
+  const [first, ...rest] = sentences;
+  if (!first) return [];
+  let length = first.section.length;
+  for (const { section } of rest) {
+    let i = 0;
+    while (i < length && section[i] === first.section[i]) i++;
+    length = i;
+  }
+  return first.section.slice(0, length);
+}
+
+/** Boxes of the spans overlapping characters `start`–`end`, trimmed to them */
+function boxesWithin(spans: TextSpan[], start: number, end: number): TextBox[] {
+  return spans
+    .filter((span) => span.start < end && span.end > start)
+    .map((span) =>
+      sliceBox(
+        span.box,
+        start - span.start,
+        end - span.start,
+        span.end - span.start,
+      ),
+    );
+}
+
+/**
+ * Split page-level text into overlapping chunks of roughly CHUNK_SIZE tokens.
+ * Chunks respect sentence boundaries where possible, track which pages
+ * they span, and record the section they belong to. A major section
+ * heading always starts a new chunk, so chunks never straddle sections.
+ */
+export function chunkText(pages: PageText[]): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const majorLevel = majorSectionLevel(pages);
+
+  // Build a single stream of sentences with page and section annotations
+  const sentences: Sentence[] = [];
+  const headings: { level: number; text: string }[] = [];
+  const sectionPath = () =>
+    headings.filter((h) => h.level >= majorLevel).map((h) => h.text);
+  // Line spans of each page, by offsets into the page's text
+  const pageSpans = new Map<number, TextSpan[]>();
+
+  for (const { page, text, blocks } of pages) {
+    const spans: TextSpan[] = [];
+    pageSpans.set(page, spans);
+    let offset = 0;
+
+    for (const block of blocks ?? [{ text }]) {
+      // Blocks are joined with a blank line in the page text
+      const blockStart = offset;
+      offset += block.text.length + 2;
+      for (const span of block.spans ?? []) {
+        spans.push({
+          start: blockStart + span.start,
+          end: blockStart + span.end,
+          box: span.box,
+        });
+      }
+
+      if (block.headingLevel !== undefined) {
+        const level = block.headingLevel;
+        while (
+          headings.length > 0 &&
+          headings[headings.length - 1]!.level >= level
+        ) {
+          headings.pop();
+        }
+        headings.push({ level, text: block.text });
+        sentences.push({
+          text: block.text,
+          page,
+          start: blockStart,
+          end: blockStart + block.text.length,
+          section: sectionPath(),
+          headingLevel: level,
+        });
+        continue;
+      }
+
+      // Split on sentence boundaries (period/question/exclamation followed by space or newline)
+      const parts = block.text.split(/(?<=[.!?])\s+/);
+      let cursor = 0;
+      for (const part of parts) {
+        const trimmed = part.trim();
+        if (trimmed.length > 0) {
+          const at = block.text.indexOf(trimmed, cursor);
+          cursor = at + trimmed.length;
+          sentences.push({
+            text: trimmed,
+            page,
+            start: blockStart + at,
+            end: blockStart + cursor,
+            section: sectionPath(),
+          });
+        }
+      }
+    }
+  }
+
+  if (sentences.length === 0) return [];
+
+  let currentChunk: Sentence[] = [];
+  let currentTokens = 0;
+
+  /** The range of the chunk's sentences on each of its pages */
+  const chunkLocations = (chunk: Sentence[]): ChunkLocation[] => {
+    const ranges: { page: number; start: number; end: number }[] = [];
+    for (const { page, start, end } of chunk) {
+      const last = ranges[ranges.length - 1];
+      if (last?.page === page) last.end = Math.max(last.end, end);
+      else ranges.push({ page, start, end });
+    }
+    return ranges.map((range) => ({
+      ...range,
+      boxes: boxesWithin(
+        pageSpans.get(range.page) ?? [],
+        range.start,
+        range.end,
+      ),
+    }));
+  };
+
+  const pushChunk = () => {
+    const content = currentChunk.map((s) => s.text).join(" ");
+    // Headings leading into the chunk's text don't narrow its section
+    const body = currentChunk.filter((s) => s.headingLevel === undefined);
+    chunks.push({
+      content,
+      page_start: currentChunk[0]!.page,
+      page_end: currentChunk[currentChunk.length - 1]!.page,
+      token_count: estimateTokens(content),
+      section_path: commonSection(body.length > 0 ? body : currentChunk),
+      chunk_type: "text",
+      table_index: null,
+      locations: chunkLocations(currentChunk),
+    });
+  };
+
+  for (const sentence of sentences) {
+    const sentenceTokens = estimateTokens(sentence.text);
+
+    // A major heading closes the current chunk (unless it only holds
+    // headings so far), with no overlap carried into the new section
+    const startsSection =
+      sentence.headingLevel !== undefined &&
+      sentence.headingLevel <= majorLevel &&
+      currentChunk.some((s) => s.headingLevel === undefined);
+
+    if (startsSection) {
+      pushChunk();
+      currentChunk = [];
+      currentTokens = 0;
+    } else if (
+      // If adding this sentence would exceed the chunk size, finalize the current chunk
+      currentTokens + sentenceTokens > CHUNK_SIZE &&
+      currentChunk.length > 0
+    ) {
+      pushChunk();
+
+      // Build overlap: take the last few sentences that fit within CHUNK_OVERLAP tokens
+      let overlapTokens = 0;
+      let overlapStart = currentChunk.length;
+      for (let i = currentChunk.length - 1; i >= 0; i--) {
+        const t = estimateTokens(currentChunk[i]!.text);
+        if (overlapTokens + t > CHUNK_OVERLAP) break;
+        overlapTokens += t;
+        overlapStart = i;
+      }
+
+      currentChunk = currentChunk.slice(overlapStart);
+      currentTokens = overlapTokens;
+    }
+
+    currentChunk.push(sentence);
+    currentTokens += sentenceTokens;
+  }
+
+  // Finalize last chunk
+  if (currentChunk.length > 0) {
+    pushChunk();
+  }
+
+  return chunks;
+}
+
+/**
+ * Render tables as searchable chunks: the caption followed by the table in
+ * Markdown. Tables too large for one chunk are split by rows, repeating
+ * the header row in every part.
+ */
+export function chunkTables(tables: ExtractedTable[]): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  tables.forEach((table, tableIndex) => {
+    const [header = [], ...body] = table.rows;
+    const title = table.caption ?? `Table on page ${table.page}`;
+
+    const push = (rows: string[][]) => {
+      const content = `${title}\n\n${tableToMarkdown([header, ...rows])}`;
+      chunks.push({
+        content,
+        page_start: table.page,
+        page_end: table.page,
+        token_count: estimateTokens(content),
+        section_path: [],
+        chunk_type: "table",
+        table_index: tableIndex,
+        locations: [
+          {
+            page: table.page,
+            start: null,
+            end: null,
+            boxes: table.box ? [table.box] : [],
+          },
+        ],
+      });
+    };
+
+    let part: string[][] = [];
+    let partTokens = estimateTokens(title + header.join(" | "));
+    const baseTokens = partTokens;
+    for (const row of body) {
+      const rowTokens = estimateTokens(row.join(" | "));
+      if (partTokens + rowTokens > CHUNK_SIZE && part.length > 0) {
+        push(part);
+        part = [];
+        partTokens = baseTokens;
+      }
+      part.push(row);
+      partTokens += rowTokens;
+    }
+    push(part);
+  });
+
+  return chunks;
+}
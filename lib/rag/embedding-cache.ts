@@ -0,0 +1,212 @@
+import { createHash } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { EmbeddingProvider, EmbeddingTaskType } from "./embeddings";
+
+// A cache of embeddings keyed by (model, dims, taskType, sha256(text)), so
+// re-uploaded papers, retried processing runs and repeated searches don't
+// pay for the same vectors twice. Two tiers:
+//
+//   - the `embedding_cache` table, shared by every server instance and
+//     read through the service role
+//   - an in-process LRU of query embeddings, for sidebar searches that
+//     repeat within minutes
+//
+// Set EMBEDDING_CACHE=off to bypass both.
+
+// ---------- Types ----------
+
+export interface EmbeddingCacheStats {
+  /** Texts looked up since the process started */
+  lookups: number;
+  memoryHits: number;
+  storeHits: number;
+  misses: number;
+  /** (memoryHits + storeHits) / lookups, or 0 before any lookup */
+  hitRate: number;
+}
+
+// ---------- Config ----------
+
+/** Query embeddings kept in memory; a 768-dim vector is about 6 KB */
+const MEMORY_CACHE_SIZE = 1000;
+
+// ---------- State ----------
+
+const memory = new Map<string, number[]>();
+const stats = { lookups: 0, memoryHits: 0, storeHits: 0, misses: 0 };
+/** The table client, null when the service role isn't configured */
+let store: SupabaseClient | null | undefined;
+
+// ---------- Internal helpers ----------
+
+function isEnabled(): boolean {
+  return process.env.EMBEDDING_CACHE !== "off";
+}
+
+function hashText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function memoryKey(provider: EmbeddingProvider, hash: string): string {
+  return `${provider.model}:${provider.dims}:${hash}`;
+}
+
+function getStore(): SupabaseClient | null {
+  if (store === undefined) {
+    try {
+      store = createAdminClient();
+    } catch (err) {
+      console.warn(
+        "[embeddings] Embedding cache table disabled:",
+        err instanceof Error ? err.message : err,
+      );
+      store = null;
+    }
+  }
+  return store;
+}
+
+/** Read from the LRU, marking the entry most recently used */
+function recall(key: string): number[] | undefined {
+  const embedding = memory.get(key);
+  if (embedding) {
+    memory.delete(key);
+    memory.set(key, embedding);
+  }
+  return embedding;
+}
+
+function remember(key: string, embedding: number[]): void {
+  memory.delete(key);
+  memory.set(key, embedding);
+  if (memory.size > MEMORY_CACHE_SIZE) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+async function loadFromStore(
+  provider: EmbeddingProvider,
+  taskType: EmbeddingTaskType,
+  hashes: string[],
+): Promise<Map<string, number[]>> {
+  const found = new Map<string, number[]>();
+  const supabase = getStore();
+  if (!supabase || hashes.length === 0) return found;
+
+  const { data, error } = await supabase
+    .from("embedding_cache")
+    .select("text_hash, embedding")
+    .eq("model", provider.model)
+    .eq("dims", provider.dims)
+    .eq("task_type", taskType)
+    .in("text_hash", hashes);
+  if (error) {
+    console.warn("[embeddings] Embedding cache read failed:", error.message);
+    return found;
+  }
+
+  for (const row of data ?? []) {
+    // pgvector columns come back as "[0.1,0.2,...]" strings
+    const embedding =
+      typeof row.embedding === "string"
+        ? (JSON.parse(row.embedding) as number[])
+        : (row.embedding as number[]);
+    found.set(row.text_hash, embedding);
+  }
+  return found;
+}
+
+// ---------- Cache ----------
+
+/**
+ * Look up cached embeddings for `texts`, in input order; null where there
+ * is none. Counts toward the hit-rate stats.
+ */
+export async function lookupCachedEmbeddings(
+  texts: string[],
+  taskType: EmbeddingTaskType,
+  provider: EmbeddingProvider,
+): Promise<(number[] | null)[]> {
+  if (!isEnabled()) return texts.map(() => null);
+
+  const hashes = texts.map(hashText);
+  const results: (number[] | null)[] = hashes.map((hash) =>
+    taskType === "RETRIEVAL_QUERY"
+      ? (recall(memoryKey(provider, hash)) ?? null)
+      : null,
+  );
+  const memoryHits = results.filter(Boolean).length;
+
+  const missing = [...new Set(hashes.filter((_, i) => !results[i]))];
+  const stored = await loadFromStore(provider, taskType, missing);
+  let storeHits = 0;
+  hashes.forEach((hash, i) => {
+    const embedding = stored.get(hash);
+    if (results[i] || !embedding) return;
+    results[i] = embedding;
+    storeHits++;
+    if (taskType === "RETRIEVAL_QUERY") {
+      remember(memoryKey(provider, hash), embedding);
+    }
+  });
+
+  stats.lookups += texts.length;
+  stats.memoryHits += memoryHits;
+  stats.storeHits += storeHits;
+  stats.misses += texts.length - memoryHits - storeHits;
+  if (texts.length > 1 && memoryHits + storeHits > 0) {
+    console.log(
+      `[embeddings] Cache served ${memoryHits + storeHits} of ${texts.length} embeddings (${provider.model})`,
+    );
+  }
+
+  return results;
+}
+
+/** Cache freshly generated embeddings; failures are logged, not thrown */
+export async function storeCachedEmbeddings(
+  texts: string[],
+  embeddings: number[][],
+  taskType: EmbeddingTaskType,
+  provider: EmbeddingProvider,
+): Promise<void> {
+  if (!isEnabled() || texts.length === 0) return;
+
+  const rows = new Map<string, number[]>();
+  texts.forEach((text, i) => rows.set(hashText(text), embeddings[i]!));
+
+  if (taskType === "RETRIEVAL_QUERY") {
+    for (const [hash, embedding] of rows) {
+      remember(memoryKey(provider, hash), embedding);
+    }
+  }
+
+  const supabase = getStore();
+  if (!supabase) return;
+  const { error } = await supabase.from("embedding_cache").upsert(
+    [...rows].map(([hash, embedding]) => ({
+      model: provider.model,
+      dims: provider.dims,
+      task_type: taskType,
+      text_hash: hash,
+      embedding: JSON.stringify(embedding),
+    })),
+    {
+      onConflict: "model,dims,task_type,text_hash",
+      ignoreDuplicates: true,
+    },
+  );
+  if (error) {
+    console.warn("[embeddings] Embedding cache write failed:", error.message);
+  }
+}
+
+/** Hit-rate counters for this server process */
+export function getEmbeddingCacheStats(): EmbeddingCacheStats {
+  const hits = stats.memoryHits + stats.storeHits;
+  return {
+    ...stats,
+    hitRate: stats.lookups > 0 ? hits / stats.lookups : 0,
+  };
+}
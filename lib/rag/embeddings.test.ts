@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import {
+  embeddingSignature,
+  generateEmbeddings,
+  getEmbeddingProvider,
+  hashingEmbeddingProvider,
+  isEmbeddedWith,
+} from "./embeddings";
+import type { EmbeddingTaskType } from "./embeddings";
+
+const TASK: EmbeddingTaskType = "RETRIEVAL_DOCUMENT";
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i]!, 0);
+}
+
+/** Run `fn` with environment variables set, restoring them afterwards */
+function withEnv(vars: Record<string, string | undefined>, fn: () => void) {
+  const previous = Object.fromEntries(
+    Object.keys(vars).map((key) => [key, process.env[key]]),
+  );
+  const apply = (values: Record<string, string | undefined>) => {
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  };
+  apply(vars);
+  try {
+    fn();
+  } finally {
+    apply(previous);
+  }
+}
+
+describe("hashingEmbeddingProvider", () => {
+  const provider = hashingEmbeddingProvider(64);
+
+  it("returns unit vectors of the configured size", async () => {
+    const [vector] = await provider.embed(["some text to embed"], TASK);
+    assert.equal(vector!.length, 64);
+    assert.ok(Math.abs(dot(vector!, vector!) - 1) < 1e-9);
+  });
+
+  it("is deterministic", async () => {
+    const [a] = await provider.embed(["the same text"], TASK);
+    const [b] = await provider.embed(["the same text"], TASK);
+    assert.deepEqual(a, b);
+  });
+
+  it("puts texts sharing words closer than unrelated ones", async () => {
+    const [query, related, unrelated] = await provider.embed(
+      [
+        "enzyme kinetics in the liver",
+        "liver enzyme kinetics were measured",
+        "a history of medieval trade routes",
+      ],
+      TASK,
+    );
+    assert.ok(dot(query!, related!) > dot(query!, unrelated!));
+  });
+});
+
+describe("getEmbeddingProvider", () => {
+  it("selects the hashing provider with EMBEDDING_DIMS", () => {
+    withEnv({ EMBEDDING_PROVIDER: "hashing", EMBEDDING_DIMS: "32" }, () => {
+      const provider = getEmbeddingProvider();
+      assert.equal(provider.model, "feature-hashing-v1");
+      assert.equal(provider.dims, 32);
+    });
+  });
+
+  it("rejects an unknown provider", () => {
+    withEnv({ EMBEDDING_PROVIDER: "nope" }, () => {
+      assert.throws(() => getEmbeddingProvider(), /Unknown EMBEDDING_PROVIDER/);
+    });
+  });
+});
+
+describe("isEmbeddedWith", () => {
+  const provider = hashingEmbeddingProvider(64);
+
+  it("matches the provider a document was embedded with", () => {
+    assert.ok(isEmbeddedWith(embeddingSignature(provider), provider));
+    assert.ok(
+      !isEmbeddedWith(
+        embeddingSignature(hashingEmbeddingProvider(32)),
+        provider,
+      ),
+    );
+  });
+
+  it("matches documents with nothing embedded yet", () => {
+    assert.ok(
+      isEmbeddedWith({ embedding_model: null, embedding_dims: null }, provider),
+    );
+  });
+});
+
+describe("generateEmbeddings", () => {
+  let previous: string | undefined;
+  before(() => {
+    previous = process.env.EMBEDDING_CACHE;
+    process.env.EMBEDDING_CACHE = "off";
+  });
+  after(() => {
+    if (previous === undefined) delete process.env.EMBEDDING_CACHE;
+    else process.env.EMBEDDING_CACHE = previous;
+  });
+
+  it("embeds each distinct text once and keeps input order", async () => {
+    const provider = hashingEmbeddingProvider(16);
+    let calls = 0;
+    const counting = {
+      ...provider,
+      async embed(texts: string[], taskType: EmbeddingTaskType) {
+        calls += texts.length;
+        return provider.embed(texts, taskType);
+      },
+    };
+
+    const texts = ["alpha", "beta", "alpha"];
+    const vectors = await generateEmbeddings(texts, TASK, counting);
+    assert.equal(calls, 2);
+    assert.deepEqual(vectors[0], vectors[2]);
+    assert.deepEqual(vectors, await provider.embed(texts, TASK));
+  });
+});
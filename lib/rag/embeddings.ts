@@ -0,0 +1,302 @@
+import {
+  ApiError,
+  getResilientClient,
+  splitOnTooLarge,
+} from "@/lib/resilience";
+import {
+  lookupCachedEmbeddings,
+  storeCachedEmbeddings,
+} from "./embedding-cache";
+
+// Embedding providers. Which one runs is chosen by environment variables:
+//
+//   EMBEDDING_PROVIDER  "gemini" (default), "openai" or "hashing"
+//   EMBEDDING_MODEL     model name; defaults per provider
+//   EMBEDDING_DIMS      vector size, default 768 (matches DB vector(768))
+//   EMBEDDING_BASE_URL  OpenAI-compatible server, default Ollama's /v1
+//   EMBEDDING_API_KEY   bearer token for the OpenAI-compatible server
+//   EMBEDDING_CACHE     "off" to bypass the embedding cache
+//
+// Documents record the model and dims their chunks were embedded with, so
+// a change of provider can be detected and the document re-embedded.
+
+// ---------- Types ----------
+
+export type EmbeddingTaskType = "RETRIEVAL_DOCUMENT" | "RETRIEVAL_QUERY";
+
+export interface EmbeddingProvider {
+  /** Stored per document as `embedding_model` */
+  model: string;
+  /** Length of every vector the provider returns */
+  dims: number;
+  /** Embed one batch of texts, in input order */
+  embed(texts: string[], taskType: EmbeddingTaskType): Promise<number[][]>;
+}
+
+export type EmbeddingProviderKind = "gemini" | "openai" | "hashing";
+
+/** The embedding fields stored on a document */
+export interface EmbeddingSignature {
+  embedding_model: string | null;
+  embedding_dims: number | null;
+}
+
+// ---------- Config ----------
+
+const GEMINI_EMBEDDING_MODEL = "gemini-embedding-001"; // 3072 native, truncated via outputDimensionality
+const DEFAULT_EMBEDDING_DIMS = 768; // matches DB vector(768)
+export const EMBEDDING_BATCH_SIZE = 20; // max chunks per embedding API call
+const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta";
+const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1"; // Ollama
+const DEFAULT_OPENAI_MODEL = "nomic-embed-text";
+const HASHING_MODEL = "feature-hashing-v1";
+
+// ---------- Internal helpers ----------
+
+function getGeminiApiKey(): string {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY environment variable is not set.");
+  }
+  return apiKey;
+}
+
+/** Fail loudly when a provider returns vectors of the wrong size */
+function checkDims(
+  embeddings: number[][],
+  dims: number,
+  model: string,
+): number[][] {
+  const wrong = embeddings.find((e) => e.length !== dims);
+  if (wrong) {
+    throw new Error(
+      `Embedding model ${model} returned ${wrong.length} dimensions, expected ${dims}.`,
+    );
+  }
+  return embeddings;
+}
+
+/** 32-bit FNV-1a hash */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// ---------- Providers ----------
+
+/**
+ * Gemini's batchEmbedContents REST API. Uses outputDimensionality to
+ * truncate to `dims` (HNSW indexes are limited to 2000).
+ */
+export function geminiEmbeddingProvider(
+  model: string = GEMINI_EMBEDDING_MODEL,
+  dims: number = DEFAULT_EMBEDDING_DIMS,
+): EmbeddingProvider {
+  return {
+    model,
+    dims,
+    async embed(texts, taskType) {
+      const data = await getResilientClient("gemini").run(async () => {
+        const response = await fetch(
+          `${GEMINI_API_BASE}/models/${model}:batchEmbedContents?key=${getGeminiApiKey()}`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              requests: texts.map((text) => ({
+                model: `models/${model}`,
+                content: { parts: [{ text }] },
+                taskType,
+                outputDimensionality: dims,
+              })),
+            }),
+          },
+        );
+
+        if (!response.ok) {
+          throw await ApiError.fromResponse(
+            response,
+            "Gemini embedding API error",
+          );
+        }
+
+        return (await response.json()) as {
+          embeddings: Array<{ values: number[] }>;
+        };
+      });
+      return checkDims(
+        data.embeddings.map((e) => e.values),
+        dims,
+        model,
+      );
+    },
+  };
+}
+
+/**
+ * Any server speaking the OpenAI `/embeddings` API: OpenAI itself, Ollama,
+ * LM Studio, vLLM, text-embeddings-inference. The task type is not part of
+ * that API and is ignored. `dims` is only sent as `dimensions` when
+ * `truncate` is set, since many models reject it.
+ */
+export function openAiEmbeddingProvider(options: {
+  baseUrl: string;
+  model: string;
+  dims: number;
+  apiKey?: string;
+  truncate?: boolean;
+}): EmbeddingProvider {
+  const { baseUrl, model, dims, apiKey, truncate } = options;
+  return {
+    model,
+    dims,
+    async embed(texts) {
+      const url = baseUrl.replace(/\/$/, "");
+      const data = await getResilientClient(`openai:${url}`).run(async () => {
+        const response = await fetch(`${url}/embeddings`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+          },
+          body: JSON.stringify({
+            model,
+            input: texts,
+            ...(truncate && { dimensions: dims }),
+          }),
+        });
+
+        if (!response.ok) {
+          throw await ApiError.fromResponse(response, "Embedding server error");
+        }
+
+        return (await response.json()) as {
+          data: Array<{ index: number; embedding: number[] }>;
+        };
+      });
+      const ordered = [...data.data].sort((a, b) => a.index - b.index);
+      return checkDims(
+        ordered.map((d) => d.embedding),
+        dims,
+        model,
+      );
+    },
+  };
+}
+
+/**
+ * Deterministic offline embeddings: words and word pairs are hashed into
+ * `dims` signed buckets and the vector is L2-normalized. Texts sharing
+ * vocabulary land close together, which is enough for tests and
+ * air-gapped development; it has no notion of meaning.
+ */
+export function hashingEmbeddingProvider(
+  dims: number = DEFAULT_EMBEDDING_DIMS,
+): EmbeddingProvider {
+  return {
+    model: HASHING_MODEL,
+    dims,
+    async embed(texts) {
+      return texts.map((text) => {
+        const vector = new Array<number>(dims).fill(0);
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+        const features = [
+          ...words,
+          ...words.slice(1).map((w, i) => `${words[i]} ${w}`),
+        ];
+        for (const feature of features) {
+          const hash = fnv1a(feature);
+          vector[hash % dims]! += hash & 0x80000000 ? -1 : 1;
+        }
+        const norm = Math.hypot(...vector) || 1;
+        return vector.map((v) => v / norm);
+      });
+    },
+  };
+}
+
+/** The provider selected by the EMBEDDING_* environment variables */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const kind = (process.env.EMBEDDING_PROVIDER ??
+    "gemini") as EmbeddingProviderKind;
+  const dims = Number(process.env.EMBEDDING_DIMS) || DEFAULT_EMBEDDING_DIMS;
+
+  switch (kind) {
+    case "gemini":
+      return geminiEmbeddingProvider(
+        process.env.EMBEDDING_MODEL ?? GEMINI_EMBEDDING_MODEL,
+        dims,
+      );
+    case "openai":
+      return openAiEmbeddingProvider({
+        baseUrl: process.env.EMBEDDING_BASE_URL ?? DEFAULT_OPENAI_BASE_URL,
+        model: process.env.EMBEDDING_MODEL ?? DEFAULT_OPENAI_MODEL,
+        dims,
+        apiKey: process.env.EMBEDDING_API_KEY,
+        truncate: process.env.EMBEDDING_DIMS !== undefined,
+      });
+    case "hashing":
+      return hashingEmbeddingProvider(dims);
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${kind}".`);
+  }
+}
+
+/** The fields to store on a document embedded with `provider` */
+export function embeddingSignature(
+  provider: EmbeddingProvider,
+): EmbeddingSignature {
+  return { embedding_model: provider.model, embedding_dims: provider.dims };
+}
+
+/**
+ * Whether a document's stored vectors came from `provider`. Documents with
+ * no recorded model have nothing embedded yet and always match.
+ */
+export function isEmbeddedWith(
+  doc: EmbeddingSignature,
+  provider: EmbeddingProvider,
+): boolean {
+  return (
+    doc.embedding_model === null ||
+    (doc.embedding_model === provider.model &&
+      doc.embedding_dims === provider.dims)
+  );
+}
+
+// ---------- Embeddings ----------
+
+/**
+ * Generate embeddings for an array of text chunks with the configured
+ * provider. Cached vectors are reused (see `embedding-cache`); the rest are
+ * embedded once per distinct text, in batches of EMBEDDING_BATCH_SIZE that
+ * are halved if the API rejects them as too large.
+ * Returns embeddings in the same order as the input chunks.
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  taskType: EmbeddingTaskType = "RETRIEVAL_DOCUMENT",
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+): Promise<number[][]> {
+  const allEmbeddings = await lookupCachedEmbeddings(texts, taskType, provider);
+  const missing = [
+    ...new Set(texts.filter((_, i) => allEmbeddings[i] === null)),
+  ];
+  const generated = new Map<string, number[]>();
+
+  // Process in batches to avoid API limits
+  for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const embeddings = await splitOnTooLarge(batch, (texts) =>
+      provider.embed(texts, taskType),
+    );
+    batch.forEach((text, j) => generated.set(text, embeddings[j]!));
+    await storeCachedEmbeddings(batch, embeddings, taskType, provider);
+  }
+
+  return texts.map((text, i) => allEmbeddings[i] ?? generated.get(text)!);
+}
@@ -0,0 +1,99 @@
+import PDFJS from "pdf2json";
+import type { Output } from "pdf2json";
+import { layoutPages } from "./layout";
+import type { ExtractedTable } from "./tables";
+
+// ---------- Types ----------
+
+export interface PageText {
+  page: number;
+  text: string;
+  /** Paragraphs and headings in reading order, when layout is known */
+  blocks?: TextBlock[];
+  /** Tables found on the page, kept out of `text` */
+  tables?: ExtractedTable[];
+}
+
+export interface TextBlock {
+  text: string;
+  /** Heading level (1 = top); absent for body text */
+  headingLevel?: number;
+  /** Where each line of the block sits on the page, when layout is known */
+  spans?: TextSpan[];
+}
+
+/** A run of block text, by character offsets, and the box it occupies */
+export interface TextSpan {
+  start: number;
+  end: number;
+  box: TextBox;
+}
+
+/** A rectangle on the page as fractions of its width and height (top-left origin) */
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ---------- Config ----------
+
+/** pdf2json page units are 1/16 inch; text widths come in points */
+const POINTS_PER_UNIT = 16;
+
+// ---------- Extraction ----------
+
+/**
+ * Extract text from a PDF buffer using pdf2json (pure Node.js, SSR-compatible).
+ * Items are laid out with their positions (see ./layout) so multi-column
+ * pages read in order and running headers/footers are dropped.
+ * Returns per-page text and total page count.
+ */
+export async function extractTextFromPdf(
+  buffer: Buffer,
+): Promise<{ pages: PageText[]; totalPages: number }> {
+  return new Promise((resolve, reject) => {
+    const pdfParser = new PDFJS();
+
+    pdfParser.on(
+      "pdfParser_dataError",
+      (errData: Error | { parserError: Error }) => {
+        const err = errData instanceof Error ? errData : errData.parserError;
+        reject(new Error(`Failed to parse PDF: ${err.message}`));
+      },
+    );
+
+    pdfParser.on("pdfParser_dataReady", (pdfData: Output) => {
+      try {
+        // Item widths and font sizes are reported in points; positions in
+        // page units
+        const pageTexts = layoutPages(
+          pdfData.Pages.map((page, index) => ({
+            page: index + 1, // 1-indexed
+            width: page.Width,
+            height: page.Height,
+            items: page.Texts.map((textItem) => ({
+              x: textItem.x,
+              y: textItem.y,
+              width: textItem.w / POINTS_PER_UNIT,
+              height: (textItem.R[0]?.TS[1] ?? 0) / POINTS_PER_UNIT,
+              fontSize: textItem.R[0]?.TS[1] ?? 0,
+              bold: textItem.R[0]?.TS[2] === 1,
+              text: decodeURIComponent(textItem.R.map((r) => r.T).join("")),
+            })),
+          })),
+        );
+
+        resolve({
+          pages: pageTexts,
+          totalPages: pageTexts.length,
+        });
+      } catch (err) {
+        reject(new Error(`Failed to extract text: ${err}`));
+      }
+    });
+
+    pdfParser.parseBuffer(buffer);
+  });
+}
@@ -0,0 +1,31 @@
+// Reciprocal rank fusion: combine ranked result lists from different
+// retrievers (keyword and vector search) without comparing their scores,
+// which live on different scales. Each list contributes 1 / (k + rank).
+
+// ---------- Config ----------
+
+/** Dampens the weight of top ranks; 60 is the value from the original paper */
+export const RRF_K = 60;
+
+// ---------- Fusion ----------
+
+/**
+ * Fuse ranked lists of items identified by `id`. Items found by several
+ * lists accumulate score; the result is sorted by fused score, best first.
+ */
+export function reciprocalRankFusion<T extends { id: string }>(
+  lists: T[][],
+  k: number = RRF_K,
+): Array<{ item: T; score: number }> {
+  const fused = new Map<string, { item: T; score: number }>();
+
+  for (const list of lists) {
+    list.forEach((item, rank) => {
+      const entry = fused.get(item.id) ?? { item, score: 0 };
+      entry.score += 1 / (k + rank + 1);
+      fused.set(item.id, entry);
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,504 @@
+import { toPageBox } from "./boxes";
+import type { PageSize } from "./boxes";
+import type { PageText, TextBlock } from "./extract";
+import { findTables } from "./tables";
+import type { ExtractedTable } from "./tables";
+
+// Layout analysis for extracted PDF text. pdf2json reports every text item
+// with its position, so instead of joining items in file order we rebuild
+// lines, detect columns, put the lines in reading order, drop running
+// headers/footers and page numbers, rejoin words hyphenated across lines,
+// mark headings (by font size, weight and numbering) for the chunker, and
+// pull tables out of the running text (see ./tables). Each block keeps the
+// boxes of the lines it was built from, so chunks can point at exact regions.
+//
+// Coordinates are pdf2json page units (1/16 inch), with y growing downwards.
+
+// ---------- Types ----------
+
+export interface LayoutItem {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontSize: number;
+  bold: boolean;
+  text: string;
+}
+
+export interface LayoutPage {
+  page: number;
+  width: number;
+  height: number;
+  items: LayoutItem[];
+}
+
+/** A run of items on one line with no large horizontal gap inside it */
+export interface Segment {
+  x: number;
+  right: number;
+  y: number;
+  bottom: number;
+  fontSize: number;
+  bold: boolean;
+  text: string;
+  /** Heading level (1 = top) once headings are detected */
+  headingLevel?: number;
+}
+
+// ---------- Config ----------
+
+/** Items whose y differs by less than this sit on the same line */
+const LINE_Y_TOLERANCE = 0.25;
+/** A horizontal gap wider than this splits a line into separate segments */
+const SEGMENT_GAP = 0.75;
+/** A gap between items wider than this gets a space when joined */
+const WORD_GAP = 0.1;
+
+/** Width of the bins used to look for empty vertical bands between columns */
+const GUTTER_BIN = 0.25;
+const MIN_GUTTER_WIDTH = 0.75;
+/** Max share of segments allowed to cross a gutter (titles, full-width text) */
+const MAX_GUTTER_CROSSING = 0.25;
+/** Each column needs at least this many segments, and this share of them */
+const MIN_COLUMN_SEGMENTS = 5;
+const MIN_COLUMN_SHARE = 0.2;
+
+/** Top/bottom share of the page searched for running headers and footers */
+const MARGIN_ZONE = 0.1;
+/** A margin line repeated on this share of pages is a running header/footer */
+const REPEAT_RATIO = 0.4;
+const MIN_PAGES_FOR_REPEATS = 3;
+
+/** Vertical gap (in typical line spacings) that starts a new paragraph */
+const PARAGRAPH_GAP = 1.6;
+
+/** Headings are short, and set larger than body text by at least this ratio */
+const HEADING_SIZE_RATIO = 1.1;
+const MAX_HEADING_CHARS = 120;
+const MAX_HEADING_WORDS = 12;
+/** Numbered headings without larger or bold type must be shorter still */
+const MAX_NUMBERED_HEADING_WORDS = 8;
+const MAX_HEADING_LEVEL = 3;
+
+/** "3.2 Results", "4. Discussion", "IV. Conclusion" */
+const HEADING_NUMBER = /^(\d{1,2}(?:\.\d{1,2}){0,3}|[IVX]{1,5})\.?\s+\p{Lu}/u;
+const SENTENCE_END = /[.!?:]["')\]]?$/;
+const PAGE_NUMBER_PATTERN =
+  /^(?:page\s+)?(?:\d{1,4}|[ivxlcdm]{1,7})(?:\s*(?:of|\/)\s*\d{1,4})?$|^[-–—]\s*\d{1,4}\s*[-–—]$/i;
+
+// ---------- Lines & segments ----------
+
+/** Join items left to right, adding a space where there is a visible gap */
+function joinItems(items: LayoutItem[]): string {
+  let text = "";
+  let prevRight = -Infinity;
+  for (const item of items) {
+    const needsSpace =
+      text.length > 0 &&
+      item.x - prevRight > WORD_GAP &&
+      !/\s$/.test(text) &&
+      !/^\s/.test(item.text);
+    text += (needsSpace ? " " : "") + item.text;
+    prevRight = item.x + item.width;
+  }
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** Group a page's items into lines, then split lines at wide gaps */
+function buildSegments(items: LayoutItem[]): Segment[] {
+  const sorted = items
+    .filter((item) => item.text.trim().length > 0)
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+
+  const lines: LayoutItem[][] = [];
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(item.y - line[0]!.y) <= LINE_Y_TOLERANCE) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  const segments: Segment[] = [];
+  for (const line of lines) {
+    line.sort((a, b) => a.x - b.x);
+
+    let run: LayoutItem[] = [];
+    const flush = () => {
+      const text = joinItems(run);
+      if (text) {
+        segments.push({
+          x: run[0]!.x,
+          right: Math.max(...run.map((i) => i.x + i.width)),
+          y: Math.min(...run.map((i) => i.y)),
+          bottom: Math.max(...run.map((i) => i.y + i.height)),
+          fontSize: Math.max(...run.map((i) => i.fontSize)),
+          bold: run.every((i) => i.bold),
+          text,
+        });
+      }
+      run = [];
+    };
+
+    for (const item of line) {
+      const prev = run[run.length - 1];
+      if (prev && item.x - (prev.x + prev.width) > SEGMENT_GAP) flush();
+      run.push(item);
+    }
+    flush();
+  }
+
+  return segments;
+}
+
+// ---------- Columns ----------
+
+/**
+ * Find the x positions of column gutters: vertical bands that almost no
+ * segment crosses, with enough text on either side to be real columns.
+ */
+function detectGutters(segments: Segment[], pageWidth: number): number[] {
+  if (segments.length < MIN_COLUMN_SEGMENTS * 2) return [];
+
+  const binCount = Math.ceil(pageWidth / GUTTER_BIN);
+  const coverage = new Array<number>(binCount).fill(0);
+  for (const s of segments) {
+    const first = Math.max(0, Math.floor(s.x / GUTTER_BIN));
+    const last = Math.min(binCount - 1, Math.floor(s.right / GUTTER_BIN));
+    for (let b = first; b <= last; b++) coverage[b]!++;
+  }
+
+  const maxCrossing = Math.floor(segments.length * MAX_GUTTER_CROSSING);
+  const minBins = Math.ceil(MIN_GUTTER_WIDTH / GUTTER_BIN);
+  const minSide = Math.max(
+    MIN_COLUMN_SEGMENTS,
+    Math.ceil(segments.length * MIN_COLUMN_SHARE),
+  );
+
+  // Only look between the leftmost and rightmost text, not in the margins
+  const textLeft = Math.min(...segments.map((s) => s.x));
+  const textRight = Math.max(...segments.map((s) => s.right));
+
+  const gutters: number[] = [];
+  let runStart = -1;
+  for (let b = 0; b <= binCount; b++) {
+    const center = (b + 0.5) * GUTTER_BIN;
+    const open =
+      b < binCount &&
+      center > textLeft &&
+      center < textRight &&
+      coverage[b]! <= maxCrossing;
+
+    if (open && runStart < 0) runStart = b;
+    if (!open && runStart >= 0) {
+      if (b - runStart >= minBins) {
+        const x = ((runStart + b) / 2) * GUTTER_BIN;
+        const left = segments.filter((s) => s.right <= x).length;
+        const right = segments.filter((s) => s.x >= x).length;
+        if (left >= minSide && right >= minSide) gutters.push(x);
+      }
+      runStart = -1;
+    }
+  }
+
+  return gutters;
+}
+
+function columnOf(s: Segment, gutters: number[]): number {
+  return gutters.filter((g) => s.x >= g).length;
+}
+
+function crossesGutter(s: Segment, gutters: number[]): boolean {
+  return gutters.some((g) => s.x < g && s.right > g);
+}
+
+/**
+ * Order segments for reading: top to bottom, except that runs of column
+ * text are read column by column. Segments crossing a gutter (titles,
+ * full-width figure captions) break the page into horizontal bands.
+ */
+function orderSegments(segments: Segment[], gutters: number[]): Segment[] {
+  const byPosition = [...segments].sort((a, b) => a.y - b.y || a.x - b.x);
+  if (gutters.length === 0) return byPosition;
+
+  const ordered: Segment[] = [];
+  let band: Segment[] = [];
+  const flushBand = () => {
+    band.sort(
+      (a, b) =>
+        columnOf(a, gutters) - columnOf(b, gutters) || a.y - b.y || a.x - b.x,
+    );
+    ordered.push(...band);
+    band = [];
+  };
+
+  for (const segment of byPosition) {
+    if (crossesGutter(segment, gutters)) {
+      flushBand();
+      ordered.push(segment);
+    } else {
+      band.push(segment);
+    }
+  }
+  flushBand();
+
+  return ordered;
+}
+
+// ---------- Headers, footers & page numbers ----------
+
+/** Normalize margin text so "Page 3" and "Page 4" compare equal */
+function marginKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+}
+
+function inMarginZone(segment: Segment, pageHeight: number): boolean {
+  return (
+    segment.y < pageHeight * MARGIN_ZONE ||
+    segment.y > pageHeight * (1 - MARGIN_ZONE)
+  );
+}
+
+/**
+ * Margin-zone texts that repeat across enough pages to be running headers
+ * or footers. Short documents never have repeats detected.
+ */
+function findRepeatedMargins(
+  pages: { height: number; segments: Segment[] }[],
+): Set<string> {
+  const repeated = new Set<string>();
+  if (pages.length < MIN_PAGES_FOR_REPEATS) return repeated;
+
+  const pageCounts = new Map<string, number>();
+  for (const { height, segments } of pages) {
+    const keys = new Set(
+      segments
+        .filter((s) => inMarginZone(s, height))
+        .map((s) => marginKey(s.text)),
+    );
+    for (const key of keys) {
+      pageCounts.set(key, (pageCounts.get(key) ?? 0) + 1);
+    }
+  }
+
+  const minPages = Math.max(2, Math.ceil(pages.length * REPEAT_RATIO));
+  for (const [key, count] of pageCounts) {
+    if (key && count >= minPages) repeated.add(key);
+  }
+  return repeated;
+}
+
+// ---------- Headings ----------
+
+/** The font size covering the most text — the document's body size */
+function bodyFontSize(segments: Segment[]): number {
+  const chars = new Map<number, number>();
+  for (const s of segments) {
+    chars.set(s.fontSize, (chars.get(s.fontSize) ?? 0) + s.text.length);
+  }
+  let body = 0;
+  let most = -1;
+  for (const [size, count] of chars) {
+    if (count > most) {
+      body = size;
+      most = count;
+    }
+  }
+  return body;
+}
+
+/**
+ * Mark heading segments with a level. Numbered headings take their level
+ * from the numbering depth ("3" → 1, "3.2" → 2); others rank by font size,
+ * with bold body-size headings below every larger size.
+ */
+function markHeadings(segments: Segment[]): void {
+  const bodySize = bodyFontSize(segments);
+  const sizeHeadings: Segment[] = [];
+  const boldHeadings: Segment[] = [];
+
+  for (const s of segments) {
+    const words = s.text.split(" ").length;
+    const titleLike =
+      s.text.length <= MAX_HEADING_CHARS &&
+      words <= MAX_HEADING_WORDS &&
+      /^[\p{Lu}\d]/u.test(s.text) &&
+      /\p{L}{2}/u.test(s.text) &&
+      !/[.,;:]$/.test(s.text);
+    if (!titleLike) continue;
+
+    const numbering = HEADING_NUMBER.exec(s.text);
+    if (numbering && /^\d/.test(numbering[1]!)) {
+      if (
+        words <= MAX_NUMBERED_HEADING_WORDS ||
+        s.bold ||
+        s.fontSize >= bodySize * HEADING_SIZE_RATIO
+      ) {
+        s.headingLevel = Math.min(
+          numbering[1]!.split(".").length,
+          MAX_HEADING_LEVEL,
+        );
+      }
+    } else if (s.fontSize >= bodySize * HEADING_SIZE_RATIO) {
+      sizeHeadings.push(s);
+    } else if (s.bold || (numbering && words <= MAX_NUMBERED_HEADING_WORDS)) {
+      boldHeadings.push(s);
+    }
+  }
+
+  const sizes = [...new Set(sizeHeadings.map((s) => s.fontSize))].sort(
+    (a, b) => b - a,
+  );
+  for (const s of sizeHeadings) {
+    s.headingLevel = Math.min(sizes.indexOf(s.fontSize) + 1, MAX_HEADING_LEVEL);
+  }
+  for (const s of boldHeadings) {
+    s.headingLevel = Math.min(sizes.length + 1, MAX_HEADING_LEVEL);
+  }
+}
+
+// ---------- Text assembly ----------
+
+/** Median vertical distance between consecutive lines in the same column */
+function typicalLineSpacing(ordered: Segment[]): number {
+  const gaps: number[] = [];
+  for (let i = 1; i < ordered.length; i++) {
+    const gap = ordered[i]!.y - ordered[i - 1]!.y;
+    if (gap > LINE_Y_TOLERANCE) gaps.push(gap);
+  }
+  if (gaps.length === 0) return 1;
+  gaps.sort((a, b) => a - b);
+  return gaps[Math.floor(gaps.length / 2)]!;
+}
+
+/**
+ * Join ordered segments into blocks. Lines of a paragraph are joined with a
+ * space (or directly, when a word was hyphenated across the line break);
+ * large vertical gaps, and column breaks after a full sentence, start a
+ * new paragraph. Headings get blocks of their own, merged across lines
+ * when a heading wraps.
+ */
+function assembleBlocks(ordered: Segment[], page: PageSize): TextBlock[] {
+  const spacing = typicalLineSpacing(ordered);
+  const blocks: TextBlock[] = [];
+  let current: TextBlock | null = null;
+
+  for (let i = 0; i < ordered.length; i++) {
+    const segment = ordered[i]!;
+    const prev = ordered[i - 1];
+    const gap = prev ? segment.y - prev.y : 0;
+    const nearPrev = gap <= spacing * PARAGRAPH_GAP;
+    // Moving up to the next column continues the paragraph mid-sentence
+    const columnBreak = gap < -LINE_Y_TOLERANCE;
+
+    const continues =
+      current !== null &&
+      (segment.headingLevel !== undefined
+        ? current.headingLevel === segment.headingLevel &&
+          nearPrev &&
+          !columnBreak
+        : current.headingLevel === undefined &&
+          nearPrev &&
+          !(columnBreak && SENTENCE_END.test(current.text)));
+
+    const box = toPageBox([segment], page);
+    if (!continues || !current) {
+      current = {
+        text: segment.text,
+        headingLevel: segment.headingLevel,
+        spans: [{ start: 0, end: segment.text.length, box }],
+      };
+      blocks.push(current);
+    } else if (/[A-Za-z]-$/.test(current.text) && /^[a-z]/.test(segment.text)) {
+      // The hyphen is dropped, so the previous line's span ends a character early
+      const start = current.text.length - 1;
+      current.spans![current.spans!.length - 1]!.end = start;
+      current.text = current.text.slice(0, -1) + segment.text;
+      current.spans!.push({ start, end: current.text.length, box });
+    } else {
+      const start = current.text.length + 1;
+      current.text += " " + segment.text;
+      current.spans!.push({ start, end: current.text.length, box });
+    }
+  }
+
+  return blocks;
+}
+
+// ---------- Public API ----------
+
+/**
+ * Turn positioned text items into per-page text in reading order, with
+ * running headers/footers and page numbers removed, headings marked and
+ * tables extracted.
+ */
+export function layoutPages(pages: LayoutPage[]): PageText[] {
+  const analyzed = pages.map((page) => ({
+    page: page.page,
+    width: page.width,
+    height: page.height,
+    segments: buildSegments(page.items),
+  }));
+
+  const repeated = findRepeatedMargins(analyzed);
+
+  const bodies = analyzed.map(({ height, segments }) =>
+    segments.filter(
+      (s) =>
+        !inMarginZone(s, height) ||
+        !(repeated.has(marginKey(s.text)) || PAGE_NUMBER_PATTERN.test(s.text)),
+    ),
+  );
+
+  // Full-width tables come out before column detection, whose gutters
+  // they would otherwise fake
+  const tables: ExtractedTable[][] = [];
+  const texts = bodies.map((body, i) => {
+    const { page, width, height } = analyzed[i]!;
+    const { tables: found, used } = findTables(page, body, body, {
+      width,
+      height,
+    });
+    tables.push(found);
+    return body.filter((s) => !used.has(s));
+  });
+
+  // Font sizes are compared across the whole document, not per page
+  markHeadings(texts.flat());
+
+  return analyzed.map(({ page, width, height }, i) => {
+    let body = texts[i]!;
+    const pageTables = tables[i]!;
+    const gutters = detectGutters(body, width);
+
+    // Tables set inside a single column of a multi-column page
+    for (
+      let column = 0;
+      gutters.length > 0 && column <= gutters.length;
+      column++
+    ) {
+      const region = body.filter(
+        (s) => !crossesGutter(s, gutters) && columnOf(s, gutters) === column,
+      );
+      const { tables: found, used } = findTables(page, region, body, {
+        width,
+        height,
+      });
+      pageTables.push(...found);
+      body = body.filter((s) => !used.has(s));
+    }
+
+    const blocks = assembleBlocks(orderSegments(body, gutters), {
+      width,
+      height,
+    });
+    return {
+      page,
+      text: blocks.map((b) => b.text).join("\n\n"),
+      blocks,
+      tables: pageTables,
+    };
+  });
+}
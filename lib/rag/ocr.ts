@@ -0,0 +1,96 @@
+import { createRequire } from "module";
+import { tmpdir } from "os";
+import path from "path";
+import { createCanvas } from "@napi-rs/canvas";
+import { createWorker } from "tesseract.js";
+import eng from "@tesseract.js-data/eng";
+
+// OCR fallback for scanned pages. Pages are rasterized with pdf.js onto a
+// native canvas and recognized with Tesseract, using the English language
+// data bundled in node_modules — nothing is downloaded at runtime.
+
+// ---------- Config ----------
+
+/** Pages with fewer non-whitespace characters than this are OCR'd */
+export const MIN_PAGE_TEXT_CHARS = 40;
+/** Render scale for rasterizing (2 ≈ 144 DPI, a good accuracy/speed trade-off) */
+const OCR_RENDER_SCALE = 2;
+
+// ---------- Helpers ----------
+
+/** Count the characters that carry text, ignoring whitespace */
+export function countTextChars(text: string): number {
+  return text.replace(/\s+/g, "").length;
+}
+
+/** Directory holding pdf.js's standard font data (needed to render in Node) */
+function standardFontDataUrl(): string {
+  const require = createRequire(import.meta.url);
+  return path.join(
+    path.dirname(require.resolve("pdfjs-dist/package.json")),
+    "standard_fonts",
+    path.sep,
+  );
+}
+
+// ---------- OCR ----------
+
+/**
+ * Rasterize the given pages (1-indexed) of a PDF and run OCR on each.
+ * Returns recognized text keyed by page number. `onPage` is called before
+ * each page so callers can report progress.
+ */
+export async function ocrPages(
+  buffer: Buffer,
+  pageNumbers: number[],
+  onPage?: (done: number, total: number) => Promise<void> | void,
+): Promise<Map<number, string>> {
+  const results = new Map<number, string>();
+  if (pageNumbers.length === 0) return results;
+
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    standardFontDataUrl: standardFontDataUrl(),
+    isEvalSupported: false,
+  }).promise;
+
+  const worker = await createWorker(eng.code, 1, {
+    langPath: eng.langPath,
+    gzip: eng.gzip,
+    cachePath: path.join(tmpdir(), "understandpdf-tesseract"),
+  });
+
+  try {
+    for (let i = 0; i < pageNumbers.length; i++) {
+      const pageNumber = pageNumbers[i]!;
+      await onPage?.(i + 1, pageNumbers.length);
+
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+      const canvas = createCanvas(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height),
+      );
+
+      await page.render({
+        canvas: canvas as unknown as HTMLCanvasElement,
+        canvasContext: canvas.getContext(
+          "2d",
+        ) as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+      page.cleanup();
+
+      const {
+        data: { text },
+      } = await worker.recognize(await canvas.encode("png"));
+      results.set(pageNumber, text.replace(/\s+/g, " ").trim());
+    }
+  } finally {
+    await worker.terminate();
+    await pdf.destroy();
+  }
+
+  return results;
+}
@@ -0,0 +1,473 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Document,
+  ProcessingProgress,
+  ProcessingStage,
+} from "@/src/services/documents";
+import { chunkTables, chunkText } from "./chunking";
+import type { ChunkLocation, TextChunk } from "./chunking";
+import {
+  EMBEDDING_BATCH_SIZE,
+  embeddingSignature,
+  generateEmbeddings,
+  getEmbeddingProvider,
+  isEmbeddedWith,
+} from "./embeddings";
+import type { EmbeddingSignature } from "./embeddings";
+import { extractTextFromPdf } from "./extract";
+import { countTextChars, MIN_PAGE_TEXT_CHARS, ocrPages } from "./ocr";
+import type { ExtractedTable } from "./tables";
+
+// The document processing pipeline. It takes the Supabase client to use so it
+// can run both from the processDocument server action (user session) and
+// from the background job worker (service role).
+
+export type PipelineResult =
+  { success: true } | { success: false; error: string };
+
+export interface PipelineOptions {
+  /**
+   * Write a failure to the document (status "failed" and
+   * `processing_error`). The job queue turns this off: it decides whether
+   * a failed attempt is final or will be retried.
+   */
+  recordFailure?: boolean;
+}
+
+// ---------- Config ----------
+
+/** Rows fetched per page when reading back stored chunks */
+const STORED_CHUNKS_PAGE_SIZE = 1000;
+
+// ---------- Status helpers ----------
+
+async function setDocumentStatus(
+  supabase: SupabaseClient,
+  documentId: string,
+  status: Document["status"],
+  extraFields?: {
+    total_pages?: number;
+    ocr_pages?: number[];
+    processing_error?: string | null;
+  } & Partial<EmbeddingSignature>,
+): Promise<void> {
+  const { error } = await supabase
+    .from("documents")
+    .update({
+      status,
+      updated_at: new Date().toISOString(),
+      ...extraFields,
+    })
+    .eq("id", documentId);
+
+  if (error) {
+    console.error("[pipeline] Status update failed:", error.message);
+  }
+}
+
+/**
+ * Record which stage the pipeline is in so the processing page can show
+ * real progress. Failures to write progress are logged, not thrown —
+ * progress reporting must never fail the pipeline.
+ */
+async function setProgress(
+  supabase: SupabaseClient,
+  documentId: string,
+  stage: ProcessingStage,
+  batch?: { current: number; total: number },
+): Promise<void> {
+  const progress: ProcessingProgress = {
+    stage,
+    ...batch,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = await supabase
+    .from("documents")
+    .update({
+      processing_progress: progress,
+      processing_error: null,
+      updated_at: progress.updated_at,
+    })
+    .eq("id", documentId);
+
+  if (error) {
+    console.error("[pipeline] Progress update failed:", error.message);
+  }
+}
+
+/**
+ * Store the document's extracted tables, replacing any from an earlier run.
+ * Returns an error message on failure.
+ */
+async function storeTables(
+  supabase: SupabaseClient,
+  documentId: string,
+  tables: ExtractedTable[],
+): Promise<string | null> {
+  if (tables.length > 0) {
+    const { error } = await supabase.from("document_tables").upsert(
+      tables.map((table, i) => ({
+        document_id: documentId,
+        table_index: i,
+        page: table.page,
+        caption: table.caption,
+        rows: table.rows,
+      })),
+      { onConflict: "document_id,table_index" },
+    );
+    if (error) return error.message;
+  }
+
+  const { error } = await supabase
+    .from("document_tables")
+    .delete()
+    .eq("document_id", documentId)
+    .gte("table_index", tables.length);
+  return error?.message ?? null;
+}
+
+// ---------- Resume helpers ----------
+
+type StoredChunk = Pick<
+  TextChunk,
+  "content" | "page_start" | "page_end" | "section_path"
+> & { locations: ChunkLocation[] | null };
+
+/**
+ * Load the chunks already stored for a document (with an embedding), keyed
+ * by chunk_index. A retried run uses this to skip batches it already
+ * embedded and stored.
+ */
+async function loadStoredChunks(
+  supabase: SupabaseClient,
+  documentId: string,
+): Promise<Map<number, StoredChunk>> {
+  const stored = new Map<number, StoredChunk>();
+
+  for (let from = 0; ; from += STORED_CHUNKS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("document_chunks")
+      .select(
+        "chunk_index, content, page_start, page_end, section_path, locations",
+      )
+      .eq("document_id", documentId)
+      .not("embedding", "is", null)
+      .order("chunk_index", { ascending: true })
+      .range(from, from + STORED_CHUNKS_PAGE_SIZE - 1);
+
+    if (error)
+      throw new Error(`Failed to read stored chunks: ${error.message}`);
+    for (const row of data ?? []) stored.set(row.chunk_index, row);
+    if (!data || data.length < STORED_CHUNKS_PAGE_SIZE) break;
+  }
+
+  return stored;
+}
+
+/**
+ * Locations as a string that doesn't depend on key order (jsonb reorders
+ * object keys), for comparing stored and fresh chunks
+ */
+function locationsKey(locations: ChunkLocation[] | null): string {
+  return JSON.stringify(
+    (locations ?? []).map(({ page, start, end, boxes }) => [
+      page,
+      start,
+      end,
+      boxes.map(({ x, y, width, height }) => [x, y, width, height]),
+    ]),
+  );
+}
+
+/** Whether a stored row already holds exactly this chunk */
+function isStored(
+  stored: Map<number, StoredChunk>,
+  index: number,
+  chunk: TextChunk,
+): boolean {
+  const row = stored.get(index);
+  return (
+    !!row &&
+    row.content === chunk.content &&
+    row.page_start === chunk.page_start &&
+    row.page_end === chunk.page_end &&
+    (row.section_path ?? []).join("\u0000") ===
+      chunk.section_path.join("\u0000") &&
+    locationsKey(row.locations) === locationsKey(chunk.locations)
+  );
+}
+
+// ---------- Pipeline ----------
+
+/**
+ * Process a document: extract text, chunk it, generate embeddings, and store
+ * everything in the document_chunks table.
+ *
+ * Each stage (and each embedding batch) is written to
+ * `documents.processing_progress`; unless `options.recordFailure` is false,
+ * failures are written to `documents.processing_error` and the document is
+ * marked "failed".
+ *
+ * Safe to re-run: chunks are upserted by (document_id, chunk_index), batches
+ * stored by an earlier attempt are skipped, and leftover rows are removed.
+ */
+export async function runProcessingPipeline(
+  supabase: SupabaseClient,
+  documentId: string,
+  { recordFailure = true }: PipelineOptions = {},
+): Promise<PipelineResult> {
+  console.log("[processDocument] Starting for document:", documentId);
+
+  /** Mark the document failed, record why, and build the error result */
+  async function fail(error: string) {
+    if (recordFailure) {
+      await setDocumentStatus(supabase, documentId, "failed", {
+        processing_error: error,
+      });
+    }
+    return { success: false as const, error };
+  }
+
+  try {
+    // 1. Get the document record
+    console.log("[processDocument] Fetching document record...");
+    const { data: doc, error: docError } = await supabase
+      .from("documents")
+      .select("*")
+      .eq("id", documentId)
+      .single();
+
+    if (docError || !doc) {
+      console.error("[processDocument] Document not found:", docError?.message);
+      return { success: false, error: "Document not found." };
+    }
+    console.log(
+      "[processDocument] Document found:",
+      doc.file_name,
+      "file_url:",
+      doc.file_url,
+    );
+
+    // 2. Download the PDF from Supabase Storage
+    console.log("[processDocument] Downloading PDF from storage...");
+    await setProgress(supabase, documentId, "download");
+    const { data: fileData, error: downloadError } = await supabase.storage
+      .from("pdfs")
+      .download(doc.file_url);
+
+    if (downloadError || !fileData) {
+      console.error(
+        "[processDocument] Download failed:",
+        downloadError?.message,
+      );
+      return fail(
+        `Failed to download PDF: ${downloadError?.message ?? "unknown"}`,
+      );
+    }
+    console.log("[processDocument] PDF downloaded, size:", fileData.size);
+
+    // 3. Extract text from PDF
+    console.log("[processDocument] Extracting text...");
+    await setProgress(supabase, documentId, "extract");
+    const buffer = Buffer.from(await fileData.arrayBuffer());
+    const { pages, totalPages } = await extractTextFromPdf(buffer);
+    console.log(
+      "[processDocument] Extracted",
+      pages.length,
+      "pages, total:",
+      totalPages,
+    );
+
+    // 3b. OCR pages where pdf2json found little or no text (scanned pages)
+    const sparsePages = pages
+      .filter((p) => countTextChars(p.text) < MIN_PAGE_TEXT_CHARS)
+      .map((p) => p.page);
+    const ocrApplied: number[] = [];
+
+    if (sparsePages.length > 0) {
+      console.log(
+        "[processDocument] Running OCR on",
+        sparsePages.length,
+        "pages with little or no text...",
+      );
+      const recognized = await ocrPages(buffer, sparsePages, (done, total) =>
+        setProgress(supabase, documentId, "ocr", { current: done, total }),
+      );
+
+      for (const page of pages) {
+        const text = recognized.get(page.page);
+        if (text && countTextChars(text) > countTextChars(page.text)) {
+          page.text = text;
+          page.blocks = undefined; // OCR text has no layout
+          ocrApplied.push(page.page);
+        }
+      }
+      console.log("[processDocument] OCR replaced text on pages:", ocrApplied);
+    }
+
+    if (pages.every((p) => countTextChars(p.text) === 0)) {
+      console.error("[processDocument] No text extracted");
+      return fail("Could not extract any text from the PDF.");
+    }
+
+    // Update total_pages and OCR'd pages on the document
+    await setDocumentStatus(supabase, documentId, "processing", {
+      total_pages: totalPages,
+      ocr_pages: ocrApplied,
+    });
+
+    // 4. Chunk the text
+    console.log("[processDocument] Chunking text...");
+    await setProgress(supabase, documentId, "chunk");
+    const tables = pages.flatMap((p) => p.tables ?? []);
+    const tableError = await storeTables(supabase, documentId, tables);
+    if (tableError) {
+      console.error("[processDocument] Table storage failed:", tableError);
+      return fail(`Failed to store tables: ${tableError}`);
+    }
+
+    // Tables are indexed as their own chunks after the running text
+    const chunks = [...chunkText(pages), ...chunkTables(tables)];
+    console.log(
+      "[processDocument] Generated",
+      chunks.length,
+      "chunks, including",
+      tables.length,
+      "tables",
+    );
+    if (chunks.length === 0) {
+      console.error("[processDocument] No chunks generated");
+      return fail("No text chunks could be generated.");
+    }
+
+    // 5. Embed and store chunks one API batch at a time. Rows are upserted
+    //    by (document_id, chunk_index), so re-running never duplicates them,
+    //    and chunks already stored by an earlier attempt are not re-embedded
+    //    unless they came from a different embedding model.
+    const provider = getEmbeddingProvider();
+    const sameModel = isEmbeddedWith(doc, provider);
+    if (!sameModel) {
+      console.log(
+        "[processDocument] Embedding model changed from",
+        doc.embedding_model,
+        "to",
+        provider.model,
+        "- re-embedding all chunks",
+      );
+    }
+    const stored = sameModel
+      ? await loadStoredChunks(supabase, documentId)
+      : new Map<number, StoredChunk>();
+    const batches = Math.ceil(chunks.length / EMBEDDING_BATCH_SIZE);
+    console.log(
+      "[processDocument] Embedding",
+      chunks.length,
+      "chunks in",
+      batches,
+      "batches,",
+      stored.size,
+      "already stored",
+    );
+
+    for (let b = 0; b < batches; b++) {
+      const offset = b * EMBEDDING_BATCH_SIZE;
+      const pending = chunks
+        .slice(offset, offset + EMBEDDING_BATCH_SIZE)
+        .map((chunk, i) => ({ chunk, index: offset + i }))
+        .filter(({ chunk, index }) => !isStored(stored, index, chunk));
+
+      if (pending.length === 0) {
+        console.log(
+          `[processDocument] Batch ${b + 1} already stored, skipping`,
+        );
+        continue;
+      }
+
+      await setProgress(supabase, documentId, "embed", {
+        current: b + 1,
+        total: batches,
+      });
+
+      let embeddings: number[][];
+      try {
+        embeddings = await generateEmbeddings(
+          pending.map(({ chunk }) => chunk.content),
+          "RETRIEVAL_DOCUMENT",
+          provider,
+        );
+      } catch (err) {
+        console.error(
+          `[processDocument] Embedding batch ${b + 1} failed:`,
+          err,
+        );
+        return fail(
+          `Embedding batch ${b + 1} of ${batches} failed: ${
+            err instanceof Error ? err.message : "unknown error"
+          }`,
+        );
+      }
+
+      const rows = pending.map(({ chunk, index }, i) => ({
+        document_id: documentId,
+        chunk_index: index,
+        content: chunk.content,
+        page_start: chunk.page_start,
+        page_end: chunk.page_end,
+        token_count: chunk.token_count,
+        section_path: chunk.section_path,
+        chunk_type: chunk.chunk_type,
+        table_index: chunk.table_index,
+        locations: chunk.locations,
+        embedding: JSON.stringify(embeddings[i]),
+        // Anything staged by a re-index was embedded from the old content
+        next_embedding: null,
+      }));
+
+      const { error: upsertError } = await supabase
+        .from("document_chunks")
+        .upsert(rows, { onConflict: "document_id,chunk_index" });
+
+      if (upsertError) {
+        console.error(
+          "[processDocument] Chunk upsert failed:",
+          upsertError.message,
+        );
+        return fail(
+          `Failed to store chunks (batch ${b + 1} of ${batches}): ${upsertError.message}`,
+        );
+      }
+    }
+
+    // 6. Remove rows left over from an earlier run that produced more chunks
+    await setProgress(supabase, documentId, "insert");
+    const { error: cleanupError } = await supabase
+      .from("document_chunks")
+      .delete()
+      .eq("document_id", documentId)
+      .gte("chunk_index", chunks.length);
+
+    if (cleanupError) {
+      console.error(
+        "[processDocument] Stale chunk cleanup failed:",
+        cleanupError.message,
+      );
+      return fail(`Failed to remove stale chunks: ${cleanupError.message}`);
+    }
+
+    // 7. Mark document as ready, recording the model only now that every
+    //    chunk carries its vectors
+    console.log("[processDocument] All chunks stored. Marking as ready...");
+    await setDocumentStatus(supabase, documentId, "ready", {
+      processing_error: null,
+      ...embeddingSignature(provider),
+    });
+    console.log("[processDocument] Document processing complete!");
+    return { success: true };
+  } catch (err) {
+    console.error("[processDocument] Unexpected error:", err);
+    return fail(
+      err instanceof Error ? err.message : "Unknown processing error.",
+    );
+  }
+}
@@ -0,0 +1,247 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  EMBEDDING_BATCH_SIZE,
+  generateEmbeddings,
+  getEmbeddingProvider,
+  isEmbeddedWith,
+} from "./embeddings";
+import type { EmbeddingProvider, EmbeddingSignature } from "./embeddings";
+
+// Moving documents to a new embedding model without re-processing them.
+// New vectors are staged in document_chunks.next_embedding while the live
+// ones stay in place; once every chunk has one, switch_document_embeddings
+// swaps them in and records the new model in a single transaction. An
+// interrupted run resumes where it stopped. Until the switch, the old
+// vectors can't be compared with queries embedded by the new model, so the
+// document is only found by keyword search.
+
+// ---------- Types ----------
+
+export interface ReindexOutcome {
+  documentId: string;
+  /** "current" when the document was already embedded with the provider */
+  status: "reindexed" | "current" | "failed";
+  /** Chunks embedded by this run */
+  chunks: number;
+  error?: string;
+}
+
+export interface ReindexSummary {
+  model: string;
+  dims: number;
+  reindexed: number;
+  failed: number;
+  /** Stale documents left for a later run when the time budget ran out */
+  remaining: number;
+  outcomes: ReindexOutcome[];
+}
+
+type ReindexDocumentRow = EmbeddingSignature & {
+  id: string;
+  next_embedding_model: string | null;
+  next_embedding_dims: number | null;
+};
+
+// ---------- Config ----------
+
+/** Default time budget for one run; stays under typical function limits */
+const DEFAULT_BUDGET_MS = 240_000;
+
+// ---------- Internal helpers ----------
+
+/**
+ * Point the document at the provider's model, discarding vectors staged
+ * for a different model by an earlier run. Vectors staged for the same
+ * model are kept, so the run resumes.
+ */
+async function prepareStaging(
+  supabase: SupabaseClient,
+  doc: ReindexDocumentRow,
+  provider: EmbeddingProvider,
+): Promise<void> {
+  if (
+    doc.next_embedding_model === provider.model &&
+    doc.next_embedding_dims === provider.dims
+  ) {
+    return;
+  }
+
+  const { error: clearError } = await supabase
+    .from("document_chunks")
+    .update({ next_embedding: null })
+    .eq("document_id", doc.id)
+    .not("next_embedding", "is", null);
+  if (clearError) {
+    throw new Error(`Failed to clear staged embeddings: ${clearError.message}`);
+  }
+
+  const { error } = await supabase
+    .from("documents")
+    .update({
+      next_embedding_model: provider.model,
+      next_embedding_dims: provider.dims,
+    })
+    .eq("id", doc.id);
+  if (error) {
+    throw new Error(`Failed to start re-embedding: ${error.message}`);
+  }
+}
+
+/** Embed every chunk without a staged vector, a batch at a time */
+async function stageEmbeddings(
+  supabase: SupabaseClient,
+  documentId: string,
+  provider: EmbeddingProvider,
+): Promise<number> {
+  let embedded = 0;
+  let lastIndex = -1;
+
+  for (;;) {
+    const { data: batch, error } = await supabase
+      .from("document_chunks")
+      .select("id, chunk_index, content")
+      .eq("document_id", documentId)
+      .is("next_embedding", null)
+      .gt("chunk_index", lastIndex)
+      .order("chunk_index", { ascending: true })
+      .limit(EMBEDDING_BATCH_SIZE);
+    if (error) {
+      throw new Error(`Failed to load chunks: ${error.message}`);
+    }
+    if (!batch || batch.length === 0) break;
+
+    const embeddings = await generateEmbeddings(
+      batch.map((c) => c.content as string),
+      "RETRIEVAL_DOCUMENT",
+      provider,
+    );
+    const results = await Promise.all(
+      batch.map((c, i) =>
+        supabase
+          .from("document_chunks")
+          .update({ next_embedding: JSON.stringify(embeddings[i]) })
+          .eq("id", c.id),
+      ),
+    );
+    const failed = results.find((r) => r.error);
+    if (failed?.error) {
+      throw new Error(`Failed to store embeddings: ${failed.error.message}`);
+    }
+
+    embedded += batch.length;
+    lastIndex = batch[batch.length - 1]!.chunk_index as number;
+  }
+
+  return embedded;
+}
+
+// ---------- Re-indexing ----------
+
+/**
+ * Re-embed one document's chunks with `provider` and switch to them.
+ * Searches keep using the old vectors until the switch, and never see a
+ * mix of the two.
+ */
+export async function reindexDocument(
+  supabase: SupabaseClient,
+  documentId: string,
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+): Promise<ReindexOutcome> {
+  const { data: doc, error } = await supabase
+    .from("documents")
+    .select(
+      "id, embedding_model, embedding_dims, next_embedding_model, next_embedding_dims",
+    )
+    .eq("id", documentId)
+    .single();
+  if (error || !doc) {
+    return {
+      documentId,
+      status: "failed",
+      chunks: 0,
+      error: "Document not found.",
+    };
+  }
+  if (isEmbeddedWith(doc as ReindexDocumentRow, provider)) {
+    return { documentId, status: "current", chunks: 0 };
+  }
+
+  try {
+    await prepareStaging(supabase, doc as ReindexDocumentRow, provider);
+    const chunks = await stageEmbeddings(supabase, documentId, provider);
+
+    const { error: switchError } = await supabase.rpc(
+      "switch_document_embeddings",
+      { target_document_id: documentId },
+    );
+    if (switchError) {
+      throw new Error(`Failed to switch embeddings: ${switchError.message}`);
+    }
+
+    console.log(
+      `[reindex] Document ${documentId} moved from ${doc.embedding_model} to ${provider.model} (${chunks} chunks embedded)`,
+    );
+    return { documentId, status: "reindexed", chunks };
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "Unknown re-indexing error.";
+    console.error(`[reindex] Document ${documentId} failed:`, message);
+    return { documentId, status: "failed", chunks: 0, error: message };
+  }
+}
+
+/**
+ * Re-embed every ready document (or the given ones) not yet embedded with
+ * the configured provider, one at a time until the time budget is spent.
+ * Run again to continue; `remaining` says how many are left.
+ */
+export async function reindexDocuments(
+  supabase: SupabaseClient,
+  options: {
+    documentIds?: string[];
+    budgetMs?: number;
+    provider?: EmbeddingProvider;
+  } = {},
+): Promise<ReindexSummary> {
+  const {
+    documentIds,
+    budgetMs = DEFAULT_BUDGET_MS,
+    provider = getEmbeddingProvider(),
+  } = options;
+  const deadline = Date.now() + budgetMs;
+
+  let query = supabase
+    .from("documents")
+    .select("id, embedding_model, embedding_dims")
+    .eq("status", "ready")
+    .order("created_at", { ascending: true });
+  if (documentIds) query = query.in("id", documentIds);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to list documents: ${error.message}`);
+  }
+
+  const stale = (
+    (data ?? []) as (EmbeddingSignature & { id: string })[]
+  ).filter((d) => !isEmbeddedWith(d, provider));
+  const summary: ReindexSummary = {
+    model: provider.model,
+    dims: provider.dims,
+    reindexed: 0,
+    failed: 0,
+    remaining: stale.length,
+    outcomes: [],
+  };
+
+  for (const doc of stale) {
+    if (Date.now() >= deadline) break;
+    const outcome = await reindexDocument(supabase, doc.id, provider);
+    summary.outcomes.push(outcome);
+    summary.remaining--;
+    if (outcome.status === "reindexed") summary.reindexed++;
+    if (outcome.status === "failed") summary.failed++;
+  }
+
+  return summary;
+}
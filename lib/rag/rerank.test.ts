@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { reciprocalRankFusion } from "./fusion";
+import {
+  getReranker,
+  lexicalReranker,
+  selectDiverse,
+  textSimilarity,
+} from "./rerank";
+
+describe("lexicalReranker", () => {
+  it("scores passages by the share of query terms they contain", async () => {
+    const scores = await lexicalReranker.score("protein folding energy", [
+      "Protein folding is driven by free energy minimisation.",
+      "Folding chairs are sold separately.",
+      "Unrelated text about weather.",
+    ]);
+    assert.ok(scores[0]! > scores[1]!);
+    assert.ok(scores[1]! > scores[2]!);
+    assert.equal(scores[2], 0);
+  });
+
+  it("gives a bonus for the exact phrase", async () => {
+    const [phrase, scattered] = await lexicalReranker.score("heat shock", [
+      "A heat shock response was observed.",
+      "Shock absorbers handle heat poorly.",
+    ]);
+    assert.ok(phrase! > scattered!);
+  });
+});
+
+describe("selectDiverse", () => {
+  const items = [
+    { id: "a", content: "the cell membrane controls transport of ions" },
+    { id: "b", content: "the cell membrane controls transport of ions too" },
+    { id: "c", content: "mitochondria produce energy for the cell" },
+  ];
+
+  it("skips near-duplicates of what it already picked", () => {
+    const picked = selectDiverse(items, [1, 0.95, 0.7], 2);
+    assert.deepEqual(
+      picked.map((p) => p.id),
+      ["a", "c"],
+    );
+  });
+
+  it("keeps relevance order when lambda is 1", () => {
+    const picked = selectDiverse(items, [1, 0.95, 0.7], 2, 1);
+    assert.deepEqual(
+      picked.map((p) => p.id),
+      ["a", "b"],
+    );
+  });
+
+  it("returns every item when asked for more than there are", () => {
+    assert.equal(selectDiverse(items, [0.1, 0.2, 0.3], 10).length, 3);
+  });
+});
+
+describe("textSimilarity", () => {
+  it("is 1 for the same words and 0 for disjoint ones", () => {
+    assert.equal(textSimilarity("alpha beta", "beta alpha"), 1);
+    assert.equal(textSimilarity("alpha beta", "gamma delta"), 0);
+  });
+});
+
+describe("getReranker", () => {
+  it("selects the reranker named by RERANKER", () => {
+    const previous = process.env.RERANKER;
+    try {
+      process.env.RERANKER = "lexical";
+      assert.equal(getReranker(), lexicalReranker);
+      delete process.env.RERANKER;
+      assert.equal(getReranker(), null);
+    } finally {
+      if (previous === undefined) delete process.env.RERANKER;
+      else process.env.RERANKER = previous;
+    }
+  });
+});
+
+describe("reciprocalRankFusion", () => {
+  it("ranks items found by several lists first", () => {
+    const keyword = [{ id: "x" }, { id: "y" }];
+    const vector = [{ id: "z" }, { id: "y" }];
+    const fused = reciprocalRankFusion([keyword, vector]);
+    assert.deepEqual(
+      fused.map((f) => f.item.id),
+      ["y", "x", "z"],
+    );
+    assert.equal(fused[0]!.score, 2 / 62);
+  });
+
+  it("ranks by position when lists don't overlap", () => {
+    const fused = reciprocalRankFusion([[{ id: "a" }, { id: "b" }]], 0);
+    assert.deepEqual(
+      fused.map((f) => [f.item.id, f.score]),
+      [
+        ["a", 1],
+        ["b", 0.5],
+      ],
+    );
+  });
+});
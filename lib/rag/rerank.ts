@@ -0,0 +1,208 @@
+import { getLlmProvider } from "@/lib/llm";
+import { ApiError, getResilientClient } from "@/lib/resilience";
+
+// Second-stage ranking for retrieved chunks. Retrieval over-fetches a
+// candidate set; a reranker scores each candidate against the query, then
+// maximal marginal relevance (MMR) picks the final results, trading a
+// little relevance for variety so overlapping chunks of the same passage
+// don't fill every slot.
+
+// ---------- Types ----------
+
+/** Scores passages for relevance to a query */
+export interface Reranker {
+  name: string;
+  /** One relevance score in [0, 1] per passage, in input order */
+  score(query: string, passages: string[]): Promise<number[]>;
+}
+
+export type RerankerKind = "llm" | "cross-encoder" | "lexical" | "none";
+
+// ---------- Config ----------
+
+/** Weight of relevance against novelty in MMR (1 = relevance only) */
+export const MMR_LAMBDA = 0.5;
+/** Passages sent to the LLM reranker are cut to this many characters */
+const LLM_PASSAGE_CHARS = 1200;
+/** Search waits on the cross-encoder, so its calls are kept short */
+const CROSS_ENCODER_TIMEOUT_MS = 10_000;
+const CROSS_ENCODER_RETRIES = 1;
+/** Words shorter than this are ignored when comparing texts */
+const MIN_TERM_LENGTH = 3;
+
+// ---------- Helpers ----------
+
+function terms(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((t) => t.length >= MIN_TERM_LENGTH),
+  );
+}
+
+/** Word-set overlap between two texts, from 0 (disjoint) to 1 (same words) */
+export function textSimilarity(a: string, b: string): number {
+  const termsA = terms(a);
+  const termsB = terms(b);
+  if (termsA.size === 0 || termsB.size === 0) return 0;
+  let shared = 0;
+  for (const t of termsA) if (termsB.has(t)) shared++;
+  return shared / (termsA.size + termsB.size - shared);
+}
+
+/** Rescale scores to [0, 1]; equal scores all become 1 */
+function normalize(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return scores.map((s) => (max > min ? (s - min) / (max - min) : 1));
+}
+
+// ---------- Rerankers ----------
+
+/**
+ * Deterministic local stand-in: the share of query terms a passage
+ * contains, with a bonus when it holds the query as an exact phrase.
+ * Needs no network, so it is also what to use in tests.
+ */
+export const lexicalReranker: Reranker = {
+  name: "lexical",
+  async score(query, passages) {
+    const queryTerms = [...terms(query)];
+    const phrase = query.trim().toLowerCase();
+    return passages.map((passage) => {
+      if (queryTerms.length === 0) return 0;
+      const passageTerms = terms(passage);
+      const covered =
+        queryTerms.filter((t) => passageTerms.has(t)).length /
+        queryTerms.length;
+      const exact = phrase && passage.toLowerCase().includes(phrase) ? 1 : 0;
+      return 0.8 * covered + 0.2 * exact;
+    });
+  },
+};
+
+/** The configured LLM rates every passage 0-10 in a single call */
+export const llmReranker: Reranker = {
+  name: "llm",
+  async score(query, passages) {
+    const numbered = passages
+      .map((p, i) => `[${i}] ${p.slice(0, LLM_PASSAGE_CHARS)}`)
+      .join("\n\n");
+    const ratings = await getLlmProvider().generateJson<unknown>({
+      prompt: `Rate how well each passage answers or informs the query, from 0 (unrelated) to 10 (directly answers it).\n\nQuery: ${query}\n\nPassages:\n\n${numbered}\n\nReturn a JSON array of ${passages.length} numbers, one per passage in order.`,
+      temperature: 0,
+    });
+    if (
+      !Array.isArray(ratings) ||
+      ratings.length !== passages.length ||
+      ratings.some((r) => typeof r !== "number")
+    ) {
+      throw new Error("LLM reranker returned malformed ratings");
+    }
+    return (ratings as number[]).map((r) => Math.min(Math.max(r / 10, 0), 1));
+  },
+};
+
+/**
+ * A cross-encoder served over HTTP with the text-embeddings-inference
+ * `/rerank` API (e.g. bge-reranker running locally at RERANKER_URL).
+ */
+export function crossEncoderReranker(baseUrl: string): Reranker {
+  return {
+    name: "cross-encoder",
+    async score(query, passages) {
+      const url = baseUrl.replace(/\/$/, "");
+      const ranked = await getResilientClient(`rerank:${url}`, {
+        maxRetries: CROSS_ENCODER_RETRIES,
+      }).run(async () => {
+        const response = await fetch(`${url}/rerank`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ query, texts: passages, truncate: true }),
+          signal: AbortSignal.timeout(CROSS_ENCODER_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+          throw await ApiError.fromResponse(
+            response,
+            "Cross-encoder rerank error",
+          );
+        }
+
+        return (await response.json()) as Array<{
+          index: number;
+          score: number;
+        }>;
+      });
+      const scores = new Array<number>(passages.length).fill(0);
+      for (const { index, score } of ranked) scores[index] = score;
+      return normalize(scores);
+    },
+  };
+}
+
+/**
+ * The reranker selected by the RERANKER environment variable: "llm",
+ * "cross-encoder" (with RERANKER_URL), "lexical", or "none" (default),
+ * which keeps the retrieval order.
+ */
+export function getReranker(): Reranker | null {
+  const kind = (process.env.RERANKER ?? "none") as RerankerKind;
+  switch (kind) {
+    case "llm":
+      return llmReranker;
+    case "lexical":
+      return lexicalReranker;
+    case "cross-encoder": {
+      const url = process.env.RERANKER_URL;
+      if (!url) {
+        throw new Error(
+          "RERANKER_URL environment variable is not set for the cross-encoder reranker.",
+        );
+      }
+      return crossEncoderReranker(url);
+    }
+    default:
+      return null;
+  }
+}
+
+// ---------- Selection ----------
+
+/**
+ * Pick `count` items by maximal marginal relevance: each step takes the
+ * item with the best mix of relevance and dissimilarity to the items
+ * already picked. `relevance` is in [0, 1], one score per item.
+ */
+export function selectDiverse<T extends { content: string }>(
+  items: T[],
+  relevance: number[],
+  count: number,
+  lambda: number = MMR_LAMBDA,
+): T[] {
+  const remaining = items.map((item, i) => ({
+    item,
+    relevance: relevance[i]!,
+  }));
+  const picked: T[] = [];
+
+  while (picked.length < count && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, i) => {
+      const redundancy = Math.max(
+        0,
+        ...picked.map((p) => textSimilarity(p.content, candidate.item.content)),
+      );
+      const score = lambda * candidate.relevance - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+    picked.push(remaining.splice(bestIndex, 1)[0]!.item);
+  }
+
+  return picked;
+}
@@ -0,0 +1,218 @@
+import { toPageBox } from "./boxes";
+import type { PageSize } from "./boxes";
+import type { TextBox } from "./extract";
+import type { Segment } from "./layout";
+
+// Table detection for the layout pass. A table is a run of consecutive
+// lines that each split into several segments, whose segments line up in
+// shared columns separated by empty vertical bands. Cells stay short —
+// that is what tells a table apart from side-by-side columns of prose.
+
+// ---------- Types ----------
+
+export interface ExtractedTable {
+  page: number;
+  caption: string | null;
+  /** Cell text by row; the first row is usually the header */
+  rows: string[][];
+  /** The area covered by the table and its caption */
+  box?: TextBox;
+}
+
+// ---------- Config ----------
+
+/** Segments whose y differs by less than this sit on the same row */
+const ROW_Y_TOLERANCE = 0.25;
+const MIN_TABLE_ROWS = 3;
+const MIN_TABLE_COLUMNS = 2;
+const MAX_TABLE_COLUMNS = 20;
+/** Rows further apart than this (in typical row spacings) end the table */
+const MAX_ROW_GAP = 2.5;
+/** Columns whose cells average more characters than this are prose */
+const MAX_AVG_CELL_CHARS = 40;
+/** Tables whose cells average more words than this are prose columns */
+const MAX_AVG_CELL_WORDS = 3.5;
+
+/** Bin width and minimum width of the empty bands separating columns */
+const COLUMN_BIN = 0.25;
+const MIN_COLUMN_GAP = 0.5;
+
+/** Captions sit within this many row spacings above or below a table */
+const CAPTION_DISTANCE = 3;
+const CAPTION_PATTERN = /^(?:table|tab\.)\s*[\dIVXivx]+/i;
+
+// ---------- Helpers ----------
+
+/** Group segments into rows by y, top to bottom, each sorted left to right */
+function groupRows(segments: Segment[]): Segment[][] {
+  const sorted = [...segments].sort((a, b) => a.y - b.y || a.x - b.x);
+  const rows: Segment[][] = [];
+  for (const segment of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(segment.y - row[0]!.y) <= ROW_Y_TOLERANCE) {
+      row.push(segment);
+    } else {
+      rows.push([segment]);
+    }
+  }
+  return rows;
+}
+
+function medianRowSpacing(rows: Segment[][]): number {
+  const gaps = rows
+    .slice(1)
+    .map((row, i) => row[0]!.y - rows[i]![0]!.y)
+    .sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)]! : 1;
+}
+
+/** x positions of the empty bands between a run's columns */
+function columnBoundaries(rows: Segment[][]): number[] {
+  const segments = rows.flat();
+  const left = Math.min(...segments.map((s) => s.x));
+  const right = Math.max(...segments.map((s) => s.right));
+  const binCount = Math.ceil((right - left) / COLUMN_BIN);
+
+  const covered = new Array<boolean>(binCount).fill(false);
+  for (const s of segments) {
+    const first = Math.max(0, Math.floor((s.x - left) / COLUMN_BIN));
+    const last = Math.min(
+      binCount - 1,
+      Math.floor((s.right - left) / COLUMN_BIN),
+    );
+    for (let b = first; b <= last; b++) covered[b] = true;
+  }
+
+  const boundaries: number[] = [];
+  const minBins = Math.ceil(MIN_COLUMN_GAP / COLUMN_BIN);
+  let runStart = -1;
+  for (let b = 0; b <= binCount; b++) {
+    const empty = b < binCount && !covered[b];
+    if (empty && runStart < 0) runStart = b;
+    if (!empty && runStart >= 0) {
+      if (b - runStart >= minBins) {
+        boundaries.push(left + ((runStart + b) / 2) * COLUMN_BIN);
+      }
+      runStart = -1;
+    }
+  }
+  return boundaries;
+}
+
+/** Build cell rows from a run of multi-segment rows, or null if not a table */
+function buildTable(run: Segment[][]): string[][] | null {
+  const boundaries = columnBoundaries(run);
+  const columnCount = boundaries.length + 1;
+  if (columnCount < MIN_TABLE_COLUMNS || columnCount > MAX_TABLE_COLUMNS) {
+    return null;
+  }
+
+  const rows = run.map((row) => {
+    const cells = new Array<string>(columnCount).fill("");
+    for (const s of row) {
+      const column = boundaries.filter((b) => s.x >= b).length;
+      cells[column] = cells[column] ? `${cells[column]} ${s.text}` : s.text;
+    }
+    return cells;
+  });
+
+  const average = (cells: string[], measure: (cell: string) => number) =>
+    cells.reduce((sum, cell) => sum + measure(cell), 0) /
+    Math.max(cells.length, 1);
+
+  for (let c = 0; c < columnCount; c++) {
+    const filled = rows.map((r) => r[c]!).filter(Boolean);
+    if (average(filled, (cell) => cell.length) > MAX_AVG_CELL_CHARS) {
+      return null;
+    }
+  }
+  const allCells = rows.flat().filter(Boolean);
+  if (
+    average(allCells, (cell) => cell.split(" ").length) > MAX_AVG_CELL_WORDS
+  ) {
+    return null;
+  }
+
+  return rows;
+}
+
+/** The nearest "Table N" line just above or below the table, if any */
+function findCaption(
+  candidates: Segment[],
+  top: number,
+  bottom: number,
+  spacing: number,
+): Segment | null {
+  const reach = spacing * CAPTION_DISTANCE;
+  let best: Segment | null = null;
+  let bestDistance = Infinity;
+  for (const s of candidates) {
+    if (!CAPTION_PATTERN.test(s.text)) continue;
+    const distance = s.y < top ? top - s.y : s.y - bottom;
+    if (distance >= 0 && distance <= reach && distance < bestDistance) {
+      best = s;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// ---------- Detection ----------
+
+/**
+ * Find tables among a region's segments. `captionCandidates` are the
+ * page's other segments, searched for a "Table N" caption. Returns the
+ * tables and the segments they consumed, which the caller drops from the
+ * running text.
+ */
+export function findTables(
+  page: number,
+  segments: Segment[],
+  captionCandidates: Segment[],
+  pageSize: PageSize,
+): { tables: ExtractedTable[]; used: Set<Segment> } {
+  const tables: ExtractedTable[] = [];
+  const used = new Set<Segment>();
+  const rows = groupRows(segments);
+  const spacing = medianRowSpacing(rows);
+
+  let run: Segment[][] = [];
+  const closeRun = () => {
+    if (run.length >= MIN_TABLE_ROWS) {
+      const cells = buildTable(run);
+      if (cells) {
+        const top = run[0]![0]!.y;
+        const bottom = run[run.length - 1]![0]!.y;
+        const caption = findCaption(
+          captionCandidates.filter((s) => !used.has(s)),
+          top,
+          bottom,
+          spacing,
+        );
+        const covered = caption ? [...run.flat(), caption] : run.flat();
+        tables.push({
+          page,
+          caption: caption?.text ?? null,
+          rows: cells,
+          box: toPageBox(covered, pageSize),
+        });
+        for (const s of run.flat()) used.add(s);
+      }
+    }
+    run = [];
+  };
+
+  for (const row of rows) {
+    const last = run[run.length - 1];
+    const close = !last || row[0]!.y - last[0]!.y <= spacing * MAX_ROW_GAP;
+    if (row.length >= 2 && close) {
+      run.push(row);
+    } else {
+      closeRun();
+      if (row.length >= 2) run.push(row);
+    }
+  }
+  closeRun();
+
+  return { tables, used };
+}
@@ -0,0 +1,5 @@
+// The language data packages ship no type declarations.
+declare module "@tesseract.js-data/eng" {
+  const data: { code: string; gzip: boolean; langPath: string };
+  export default data;
+}
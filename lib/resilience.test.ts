@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ApiError, createResilientClient } from "./resilience";
+
+const OPTIONS = { baseDelayMs: 1, maxDelayMs: 50, maxRetries: 2 };
+
+/** A call that fails with `errors` in turn, then returns "ok" */
+function failingCall(errors: Error[]) {
+  let calls = 0;
+  const call = async () => {
+    const err = errors[calls++];
+    if (err) throw err;
+    return "ok";
+  };
+  return { call, calls: () => calls };
+}
+
+describe("createResilientClient", () => {
+  it("retries transient failures", async () => {
+    const client = createResilientClient("test", OPTIONS);
+    const { call, calls } = failingCall([
+      new ApiError("busy", 503),
+      new ApiError("busy", 503),
+    ]);
+    assert.equal(await client.run(call), "ok");
+    assert.equal(calls(), 3);
+  });
+
+  it("waits out a Retry-After within maxDelayMs", async () => {
+    const client = createResilientClient("test", OPTIONS);
+    const { call, calls } = failingCall([new ApiError("slow down", 429, 40)]);
+    const started = Date.now();
+    assert.equal(await client.run(call), "ok");
+    assert.equal(calls(), 2);
+    assert.ok(Date.now() - started >= 35);
+  });
+
+  it("fails at once when Retry-After exceeds maxDelayMs", async () => {
+    const client = createResilientClient("test", OPTIONS);
+    const { call, calls } = failingCall([
+      new ApiError("slow down", 429, 60_000),
+    ]);
+    await assert.rejects(client.run(call), /slow down/);
+    assert.equal(calls(), 1);
+  });
+
+  it("does not retry a bad request", async () => {
+    const client = createResilientClient("test", OPTIONS);
+    const { call, calls } = failingCall([new ApiError("bad", 400)]);
+    await assert.rejects(client.run(call), /bad/);
+    assert.equal(calls(), 1);
+  });
+});
@@ -0,0 +1,348 @@
+// ---------- Resilient calls to rate-limited APIs ----------
+//
+// Every call to an external model API goes through a ResilientClient named
+// after the service, shared process-wide so embeddings, insights and chat
+// against the same API key draw on one budget:
+//
+//   - transient failures (429, 5xx, network errors, timeouts) are retried
+//     with exponential backoff and jitter, honoring Retry-After when given;
+//     a call asked to wait longer than `maxDelayMs` fails at once instead
+//   - at most `maxConcurrency` calls are in flight at once; a streamed
+//     call counts until its stream is consumed
+//   - after `failureThreshold` consecutive calls fail even with retries,
+//     the circuit opens and calls fail fast for `cooldownMs`, then one
+//     trial call decides whether it closes again
+//
+// `splitOnTooLarge` retries a batch call in halves when the API rejects
+// the payload as too large.
+
+// ---------- Types ----------
+
+export interface ResilienceOptions {
+  maxConcurrency: number;
+  /** Retries after the first attempt */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface ResilientClient {
+  name: string;
+  /** Run `call` with retries, within the concurrency limit and circuit */
+  run<T>(call: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+  /**
+   * Like `run` for a streamed response: opening it is retried, and its
+   * concurrency slot is held until the stream is consumed or abandoned
+   */
+  stream<T>(
+    open: () => Promise<AsyncIterable<T>>,
+    signal?: AbortSignal
+  ): AsyncGenerator<T>;
+}
+
+/** An HTTP error from an API, carrying what retry decisions need */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  /** Build from a non-OK response, reading its body and Retry-After */
+  static async fromResponse(response: Response, label: string) {
+    const body = await response.text();
+    return new ApiError(
+      `${label} (${response.status}): ${body}`,
+      response.status,
+      parseRetryAfter(response.headers.get("retry-after"))
+    );
+  }
+}
+
+/** Thrown without calling the API while a service's circuit is open */
+export class CircuitOpenError extends Error {
+  constructor(
+    service: string,
+    readonly retryAfterMs: number
+  ) {
+    super(
+      `${service} is unavailable after repeated failures; retrying in ${Math.ceil(retryAfterMs / 1000)}s.`
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+// ---------- Config ----------
+
+const DEFAULT_OPTIONS: ResilienceOptions = {
+  maxConcurrency: 4,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+};
+
+/** Status codes worth retrying: timeouts, rate limits, server errors */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// ---------- Internal helpers ----------
+
+/** Retry-After is either delay-seconds or an HTTP date */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function errorStatus(err: unknown): number | null {
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : null;
+}
+
+/**
+ * The server's requested delay: Retry-After on an ApiError, or the
+ * RetryInfo detail the Gemini SDK attaches to its errors ("31s").
+ */
+function retryAfterMs(err: unknown): number | null {
+  if (err instanceof ApiError) return err.retryAfterMs;
+  const details = (err as { errorDetails?: unknown } | null)?.errorDetails;
+  if (!Array.isArray(details)) return null;
+  for (const detail of details as Array<{ retryDelay?: unknown }>) {
+    const match = /^([\d.]+)s$/.exec(String(detail?.retryDelay ?? ""));
+    if (match) return Number(match[1]) * 1000;
+  }
+  return null;
+}
+
+function isAbort(err: unknown): boolean {
+  return err instanceof Error && err.name === "AbortError";
+}
+
+function isRetryable(err: unknown): boolean {
+  if (isAbort(err) || err instanceof CircuitOpenError) return false;
+  const status = errorStatus(err);
+  if (status !== null) return RETRYABLE_STATUSES.has(status);
+  // AbortSignal.timeout() rejects with a TimeoutError; fetch() rejects with
+  // a TypeError on network failures
+  if (err instanceof Error && err.name === "TimeoutError") return true;
+  return err instanceof TypeError;
+}
+
+/** Whether the API rejected the request for being too big */
+export function isPayloadTooLarge(err: unknown): boolean {
+  const status = errorStatus(err);
+  if (status === 413) return true;
+  return (
+    status === 400 &&
+    err instanceof Error &&
+    /too large|exceeds the limit|payload size|too many/i.test(err.message)
+  );
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Full-jitter exponential backoff, unless the server named a delay. Null
+ * when the server's delay is longer than `maxDelayMs`: retrying any sooner
+ * would only be refused again.
+ */
+function backoffDelay(
+  err: unknown,
+  attempt: number,
+  options: ResilienceOptions
+): number | null {
+  const requested = retryAfterMs(err);
+  if (requested !== null) {
+    return requested <= options.maxDelayMs ? requested : null;
+  }
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt
+  );
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+// ---------- Client ----------
+
+export function createResilientClient(
+  name: string,
+  overrides: Partial<ResilienceOptions> = {}
+): ResilientClient {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+
+  // Concurrency: a counting semaphore with a FIFO queue of waiters
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  async function acquire(): Promise<void> {
+    if (active < options.maxConcurrency) {
+      active++;
+      return;
+    }
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+
+  function release(): void {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  }
+
+  // Circuit breaker: closed until failureThreshold consecutive failures,
+  // then open until openUntil, then half-open for a single trial call
+  let consecutiveFailures = 0;
+  let openUntil = 0;
+  let trialInFlight = false;
+
+  function admit(): boolean {
+    if (consecutiveFailures < options.failureThreshold) return false;
+    const wait = openUntil - Date.now();
+    if (wait > 0 || trialInFlight) {
+      throw new CircuitOpenError(name, Math.max(wait, 1000));
+    }
+    trialInFlight = true;
+    return true;
+  }
+
+  function recordOutcome(ok: boolean): void {
+    trialInFlight = false;
+    if (ok) {
+      consecutiveFailures = 0;
+      return;
+    }
+    consecutiveFailures++;
+    if (consecutiveFailures >= options.failureThreshold) {
+      openUntil = Date.now() + options.cooldownMs;
+      console.warn(
+        `[resilience] ${name}: circuit open for ${options.cooldownMs / 1000}s after ${consecutiveFailures} failures`
+      );
+    }
+  }
+
+  async function withRetries<T>(
+    call: () => Promise<T>,
+    trial: boolean,
+    signal?: AbortSignal
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await call();
+        recordOutcome(true);
+        return result;
+      } catch (err) {
+        if (!isRetryable(err)) {
+          // The service answered; only the request was bad
+          if (trial) trialInFlight = false;
+          throw err;
+        }
+        if (attempt >= options.maxRetries || trial) {
+          recordOutcome(false);
+          throw err;
+        }
+        const delay = backoffDelay(err, attempt, options);
+        if (delay === null) {
+          // Rate limited for longer than we'll wait; the service is up
+          if (trial) trialInFlight = false;
+          console.warn(
+            `[resilience] ${name}: asked to wait ${Math.round(retryAfterMs(err)! / 1000)}s, giving up`
+          );
+          throw err;
+        }
+        console.warn(
+          `[resilience] ${name}: attempt ${attempt + 1} failed (${errorStatus(err) ?? "network"}), retrying in ${Math.round(delay)}ms`
+        );
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  async function run<T>(
+    call: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const trial = admit();
+    await acquire();
+    try {
+      return await withRetries(call, trial, signal);
+    } finally {
+      release();
+    }
+  }
+
+  async function* stream<T>(
+    open: () => Promise<AsyncIterable<T>>,
+    signal?: AbortSignal
+  ): AsyncGenerator<T> {
+    const trial = admit();
+    await acquire();
+    try {
+      yield* await withRetries(open, trial, signal);
+    } finally {
+      release();
+    }
+  }
+
+  return { name, run, stream };
+}
+
+const clients = new Map<string, ResilientClient>();
+
+/** The process-wide client for a service, created on first use */
+export function getResilientClient(
+  name: string,
+  overrides?: Partial<ResilienceOptions>
+): ResilientClient {
+  let client = clients.get(name);
+  if (!client) {
+    client = createResilientClient(name, overrides);
+    clients.set(name, client);
+  }
+  return client;
+}
+
+// ---------- Batch splitting ----------
+
+/**
+ * Run a batch call, and when the API rejects the batch as too large, run
+ * each half separately (recursively) and concatenate the results in order.
+ * A single item that is still too large fails as usual.
+ */
+export async function splitOnTooLarge<T, R>(
+  items: T[],
+  call: (batch: T[]) => Promise<R[]>
+): Promise<R[]> {
+  try {
+    return await call(items);
+  } catch (err) {
+    if (items.length < 2 || !isPayloadTooLarge(err)) throw err;
+    const middle = Math.ceil(items.length / 2);
+    console.warn(
+      `[resilience] Batch of ${items.length} too large, splitting into ${middle} + ${items.length - middle}`
+    );
+    return [
+      ...(await splitOnTooLarge(items.slice(0, middle), call)),
+      ...(await splitOnTooLarge(items.slice(middle), call)),
+    ];
+  }
+}
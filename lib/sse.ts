@@ -0,0 +1,61 @@
+// ---------- Server-Sent Events helpers for route handlers ----------
+
+export type SseSend = (event: string, data: unknown) => void;
+
+/**
+ * Build a `text/event-stream` Response. `run` receives a `send` function and
+ * the stream is closed when it resolves. Errors thrown by `run` are reported
+ * to the client as an `error` event instead of cutting the stream.
+ */
+export function sseResponse(
+  run: (send: SseSend, signal: AbortSignal) => Promise<void>,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+
+  // Set once the client goes away; the controller can't be used after that
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SseSend = (event, data) => {
+        if (closed || signal.aborted) return;
+        try {
+          controller.enqueue(
+            encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+          );
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        await run(send, signal);
+      } catch (err) {
+        console.error("[sse] Stream failed:", err);
+        send("error", {
+          message: err instanceof Error ? err.message : "Stream failed.",
+        });
+      } finally {
+        if (!closed) {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
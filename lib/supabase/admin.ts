@@ -0,0 +1,20 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Service-role client for server-side work that runs without a user session
+ * (the processing job worker). Bypasses RLS — never expose it to the browser
+ * and always scope queries explicitly.
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY environment variable is not set.");
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Native/worker-based OCR dependencies must be loaded from node_modules
+  serverExternalPackages: ["tesseract.js", "@napi-rs/canvas", "pdfjs-dist"],
   experimental: {
     serverActions: {
       bodySizeLimit: "50mb",
@@ -2,21 +2,65 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 import { Document, Page } from "react-pdf";
+import { findTextRange, rotateQuad } from "@/src/shared/utils";
 import "react-pdf/dist/Page/TextLayer.css";
 import "react-pdf/dist/Page/AnnotationLayer.css";
 
 // ---------- Types ----------
 export type ScrollMode = "single" | "continuous";
 
+/** A passage to mark on a page, e.g. a cited quote or a search hit */
+export interface PdfHighlight {
+  /** Page the text is on (1-indexed) */
+  page: number;
+  /** The text to find in the page's text layer */
+  text: string;
+}
+
+/**
+ * A rectangle as fractions of the page size, top-left origin, with the
+ * page's own /Rotate applied but not the viewer's rotation
+ */
+export interface PdfQuad {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A saved annotation to draw over its page */
+export interface PdfAnnotationMark {
+  id: string;
+  page: number;
+  quads: PdfQuad[];
+  /** CSS color of the highlight */
+  color: string;
+  /** Shown on hover */
+  note?: string | null;
+}
+
+/** Text the user selected on a page */
+export interface PdfTextSelection {
+  page: number;
+  text: string;
+  /** One quad per selected line */
+  quads: PdfQuad[];
+  /** Bottom center of the selection in viewport coordinates, for popovers */
+  anchor: { x: number; y: number };
+}
+
+/** A highlight box, in CSS pixels relative to its page */
+interface HighlightBox {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
 export interface PdfViewerProps {
   /** PDF source — URL string, Blob/File, ArrayBuffer, or {url}/{data} object */
   file:
-    | string
-    | Blob
-    | ArrayBuffer
-    | { url: string }
-    | { data: Uint8Array }
-    | null;
+    string | Blob | ArrayBuffer | { url: string } | { data: Uint8Array } | null;
   /** Currently displayed page (1-indexed). In continuous mode used for scrollTo. */
   pageNumber: number;
   /** Zoom / scale factor applied to the PDF's intrinsic size (default 1.0) */
@@ -39,6 +83,22 @@ export interface PdfViewerProps {
   highlightedPage?: number | null;
   /** Rotation in degrees (0, 90, 180, 270) */
   rotate?: number;
+  /**
+   * Passages to highlight on the exact words; the first one found is
+   * scrolled into view whenever the list changes. Needs the text layer.
+   */
+  highlights?: PdfHighlight[];
+  /** Saved annotations, drawn at their quads on every render */
+  annotations?: PdfAnnotationMark[];
+  /** Annotation to outline and scroll into view */
+  activeAnnotationId?: string | null;
+  /** Called when an annotation mark is clicked */
+  onAnnotationClick?: (id: string) => void;
+  /**
+   * Called when the user finishes selecting text on a page, and with null
+   * when the selection is cleared. Needs the text layer.
+   */
+  onTextSelect?: (selection: PdfTextSelection | null) => void;
 }
 
 // ---------- Dynamic PDF.js Loader ----------
@@ -73,6 +133,111 @@ const usePdfJs = () => {
   return { pdfjsLib, pdfjsLoaded, error };
 };
 
+// ---------- Highlighting ----------
+const NO_HIGHLIGHTS: PdfHighlight[] = [];
+
+/** Boxes covering each highlight found in a rendered page */
+function measureHighlights(
+  pageElement: HTMLElement,
+  highlights: PdfHighlight[],
+): HighlightBox[] {
+  const layer = pageElement.querySelector(".react-pdf__Page__textContent");
+  if (!layer) return [];
+
+  const origin = pageElement.getBoundingClientRect();
+  return highlights.flatMap((highlight) => {
+    const range = findTextRange(layer, highlight.text);
+    if (!range) return [];
+    return Array.from(range.getClientRects())
+      .filter((rect) => rect.width > 0 && rect.height > 0)
+      .map((rect) => ({
+        top: rect.top - origin.top,
+        left: rect.left - origin.left,
+        width: rect.width,
+        height: rect.height,
+      }));
+  });
+}
+
+// ---------- Annotations ----------
+const NO_ANNOTATIONS: PdfAnnotationMark[] = [];
+
+/**
+ * The current text selection, if it starts in a page's text layer: its
+ * text and one quad per line (the text layer's many spans merged), as
+ * fractions of the page without the viewer's rotation (see
+ * `PdfQuad`). Lines on other pages are left out.
+ */
+function readSelection(rotate: number): PdfTextSelection | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+    return null;
+  }
+  const text = selection.toString().replace(/\s+/g, " ").trim();
+  const range = selection.getRangeAt(0);
+  const start =
+    range.startContainer instanceof Element
+      ? range.startContainer
+      : range.startContainer.parentElement;
+  const pageElement = start
+    ?.closest(".react-pdf__Page__textContent")
+    ?.closest<HTMLElement>("[data-page]");
+  if (!text || !pageElement) return null;
+
+  const origin = pageElement.getBoundingClientRect();
+  const rects = Array.from(range.getClientRects())
+    .filter((r) => r.width > 0 && r.height > 0)
+    .filter((r) => {
+      const middle = r.top + r.height / 2;
+      return middle >= origin.top && middle <= origin.bottom;
+    })
+    .sort((a, b) => a.top - b.top || a.left - b.left);
+
+  // Spans on the same line overlap vertically by most of their height
+  const lines: { left: number; top: number; right: number; bottom: number }[] =
+    [];
+  for (const r of rects) {
+    const line = lines[lines.length - 1];
+    const overlap = line
+      ? Math.min(line.bottom, r.bottom) - Math.max(line.top, r.top)
+      : 0;
+    if (line && overlap > Math.min(line.bottom - line.top, r.height) / 2) {
+      line.left = Math.min(line.left, r.left);
+      line.right = Math.max(line.right, r.right);
+      line.top = Math.min(line.top, r.top);
+      line.bottom = Math.max(line.bottom, r.bottom);
+    } else {
+      lines.push({
+        left: r.left,
+        top: r.top,
+        right: r.right,
+        bottom: r.bottom,
+      });
+    }
+  }
+  if (lines.length === 0) return null;
+
+  const quads = lines.map((line) =>
+    rotateQuad(
+      {
+        x: (line.left - origin.left) / origin.width,
+        y: (line.top - origin.top) / origin.height,
+        width: (line.right - line.left) / origin.width,
+        height: (line.bottom - line.top) / origin.height,
+      },
+      360 - rotate,
+    ),
+  );
+  const left = Math.min(...lines.map((l) => l.left));
+  const right = Math.max(...lines.map((l) => l.right));
+  return {
+    page: Number(pageElement.dataset.page),
+    text,
+    quads,
+    anchor: { x: (left + right) / 2, y: lines[lines.length - 1]!.bottom },
+  };
+}
+
 // ---------- Component ----------
 export default function PdfViewer({
   file,
@@ -87,6 +252,11 @@ export default function PdfViewer({
   className,
   highlightedPage = null,
   rotate = 0,
+  highlights = NO_HIGHLIGHTS,
+  annotations = NO_ANNOTATIONS,
+  activeAnnotationId = null,
+  onAnnotationClick,
+  onTextSelect,
 }: PdfViewerProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [numPages, setNumPages] = useState(0);
@@ -180,6 +350,119 @@ export default function PdfViewer({
     }
   }, []);
 
+  // Highlight boxes per page, measured once a page's text layer renders
+  const [highlightBoxes, setHighlightBoxes] = useState<
+    Map<number, HighlightBox[]>
+  >(new Map());
+  // Page whose first highlight should be scrolled to once painted
+  const scrollToHighlight = useRef<number | null>(null);
+
+  const paintHighlights = useCallback(
+    (page: number) => {
+      const el = pageRefs.current.get(page);
+      const onPage = highlights.filter((h) => h.page === page);
+      if (!el) return;
+      const boxes = onPage.length > 0 ? measureHighlights(el, onPage) : [];
+      setHighlightBoxes((prev) => {
+        if (boxes.length === 0 && !prev.has(page)) return prev;
+        const next = new Map(prev);
+        if (boxes.length > 0) next.set(page, boxes);
+        else next.delete(page);
+        return next;
+      });
+    },
+    [highlights],
+  );
+
+  // Repaint rendered pages when the highlights change; pages rendered
+  // later paint themselves from onRenderTextLayerSuccess
+  useEffect(() => {
+    scrollToHighlight.current = highlights[0]?.page ?? null;
+    const frame = requestAnimationFrame(() => {
+      setHighlightBoxes(new Map());
+      for (const page of new Set(highlights.map((h) => h.page))) {
+        paintHighlights(page);
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [highlights, paintHighlights]);
+
+  // Bring the first highlight into view once it has been painted
+  useEffect(() => {
+    const page = scrollToHighlight.current;
+    if (page === null || !highlightBoxes.has(page)) return;
+    scrollToHighlight.current = null;
+    const mark = pageRefs.current
+      .get(page)
+      ?.querySelector("[data-pdf-highlight]");
+    // After the page scroll started by a page change
+    const timer = setTimeout(
+      () => mark?.scrollIntoView({ behavior: "smooth", block: "center" }),
+      scrollMode === "continuous" ? 650 : 0,
+    );
+    return () => clearTimeout(timer);
+  }, [highlightBoxes, scrollMode]);
+
+  const renderHighlights = (page: number) =>
+    highlightBoxes
+      .get(page)
+      ?.map((box, i) => (
+        <div
+          key={i}
+          data-pdf-highlight
+          className="pointer-events-none absolute rounded-[2px] bg-yellow-300/50 mix-blend-multiply"
+          style={box}
+        />
+      ));
+
+  // Bring the active annotation into view, e.g. when picked from a list
+  useEffect(() => {
+    if (!activeAnnotationId) return;
+    // After the page scroll started by a page change
+    const timer = setTimeout(
+      () =>
+        document
+          .querySelector(`[data-annotation-id="${activeAnnotationId}"]`)
+          ?.scrollIntoView({ behavior: "smooth", block: "center" }),
+      scrollMode === "continuous" ? 650 : 0,
+    );
+    return () => clearTimeout(timer);
+  }, [activeAnnotationId, scrollMode]);
+
+  const renderAnnotations = (page: number) =>
+    annotations
+      .filter((a) => a.page === page)
+      .flatMap((annotation) =>
+        annotation.quads.map((quad, i) => {
+          const box = rotateQuad(quad, rotate);
+          return (
+            <div
+              key={`${annotation.id}-${i}`}
+              data-annotation-id={i === 0 ? annotation.id : undefined}
+              title={annotation.note ?? undefined}
+              onClick={() => onAnnotationClick?.(annotation.id)}
+              className={`absolute cursor-pointer rounded-[2px] opacity-50 mix-blend-multiply ${
+                annotation.id === activeAnnotationId
+                  ? "ring-2 ring-blue-500"
+                  : ""
+              }`}
+              style={{
+                left: `${box.x * 100}%`,
+                top: `${box.y * 100}%`,
+                width: `${box.width * 100}%`,
+                height: `${box.height * 100}%`,
+                backgroundColor: annotation.color,
+              }}
+            />
+          );
+        }),
+      );
+
+  const handleMouseUp = () => {
+    if (!onTextSelect || !renderTextLayer) return;
+    onTextSelect(readSelection(rotate));
+  };
+
   if (!file) {
     return (
       <div className="flex h-full items-center justify-center text-sm text-gray-400">
@@ -227,7 +510,7 @@ export default function PdfViewer({
   }
 
   return (
-    <div className={className ?? ""}>
+    <div className={className ?? ""} onMouseUp={handleMouseUp}>
       {/* Error state */}
       {finalError && !finalIsLoading && (
         <div className="flex w-full items-center justify-center px-6 py-12">
@@ -249,6 +532,8 @@ export default function PdfViewer({
         {scrollMode === "single" ? (
           /* ---------- Single-page mode ---------- */
           <div
+            ref={(el) => setPageRef(pageNumber, el)}
+            data-page={pageNumber}
             className={`relative inline-block transition-all duration-300 ${
               highlightedPage === pageNumber
                 ? "ring-2 ring-amber-400 ring-offset-2"
@@ -262,7 +547,10 @@ export default function PdfViewer({
               renderTextLayer={renderTextLayer}
               renderAnnotationLayer={renderAnnotationLayer}
               loading={pageLoading}
+              onRenderTextLayerSuccess={() => paintHighlights(pageNumber)}
             />
+            {renderAnnotations(pageNumber)}
+            {renderHighlights(pageNumber)}
           </div>
         ) : (
           /* ---------- Continuous-scroll mode ---------- */
@@ -287,7 +575,10 @@ export default function PdfViewer({
                     renderTextLayer={renderTextLayer}
                     renderAnnotationLayer={renderAnnotationLayer}
                     loading={pageLoading}
+                    onRenderTextLayerSuccess={() => paintHighlights(page)}
                   />
+                  {renderAnnotations(page)}
+                  {renderHighlights(page)}
                 </div>
               );
             })}
@@ -0,0 +1,195 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { isAnnotationColor } from "@/src/shared/utils";
+import type { AnnotationColor } from "@/src/shared/utils";
+
+// ---------- Types ----------
+
+/**
+ * A line of highlighted text as fractions of the page size, top-left
+ * origin, on the page as displayed: its own /Rotate applied, the viewer's
+ * rotation undone
+ */
+export interface AnnotationQuad {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Annotation {
+  id: string;
+  document_id: string;
+  user_id: string;
+  /** Page the highlight is on (1-indexed) */
+  page: number;
+  quads: AnnotationQuad[];
+  /** The highlighted text */
+  text: string;
+  color: AnnotationColor;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewAnnotation {
+  documentId: string;
+  page: number;
+  quads: AnnotationQuad[];
+  text: string;
+  color: AnnotationColor;
+  note?: string | null;
+}
+
+// ---------- Config ----------
+
+const MAX_TEXT_LENGTH = 5000;
+const MAX_NOTE_LENGTH = 5000;
+/** More lines than any single-page selection needs */
+const MAX_QUADS = 200;
+
+// ---------- Internal helpers ----------
+
+/** Keep only well-formed quads, clamped to the page; any left empty go too */
+function cleanQuads(quads: AnnotationQuad[]): AnnotationQuad[] {
+  const fraction = (value: number) => Math.min(1, Math.max(0, value));
+  return quads
+    .filter(
+      (q) =>
+        [q.x, q.y, q.width, q.height].every(Number.isFinite) &&
+        q.width > 0 &&
+        q.height > 0
+    )
+    .slice(0, MAX_QUADS)
+    .map((q) => {
+      const x = fraction(q.x);
+      const y = fraction(q.y);
+      return {
+        x,
+        y,
+        width: Math.min(1 - x, fraction(q.width)),
+        height: Math.min(1 - y, fraction(q.height)),
+      };
+    })
+    .filter((q) => q.width > 0 && q.height > 0);
+}
+
+/** An empty note is no note */
+function cleanNote(note: string | null | undefined): string | null {
+  const trimmed = note?.trim();
+  return trimmed ? trimmed.slice(0, MAX_NOTE_LENGTH) : null;
+}
+
+// ---------- Server Actions ----------
+
+/**
+ * List the current user's annotations on a document, in page order.
+ */
+export async function listAnnotations(
+  documentId: string
+): Promise<Annotation[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("annotations")
+    .select("*")
+    .eq("document_id", documentId)
+    .order("page", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error || !data) return [];
+  return data as Annotation[];
+}
+
+/**
+ * Highlight text on a page, optionally with a note. Returns null if the
+ * user is not signed in, the selection is empty or the insert fails.
+ */
+export async function createAnnotation(
+  input: NewAnnotation
+): Promise<Annotation | null> {
+  const quads = cleanQuads(input.quads);
+  if (
+    quads.length === 0 ||
+    !Number.isInteger(input.page) ||
+    input.page < 1 ||
+    !isAnnotationColor(input.color)
+  ) {
+    return null;
+  }
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return null;
+
+  const { data, error } = await supabase
+    .from("annotations")
+    .insert({
+      document_id: input.documentId,
+      user_id: user.id,
+      page: input.page,
+      quads,
+      text: input.text.trim().slice(0, MAX_TEXT_LENGTH),
+      color: input.color,
+      note: cleanNote(input.note),
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error("[annotations] Create failed:", error?.message);
+    return null;
+  }
+  return data as Annotation;
+}
+
+/**
+ * Change an annotation's color or note. Returns the updated annotation, or
+ * null if the update fails.
+ */
+export async function updateAnnotation(
+  annotationId: string,
+  changes: { color?: AnnotationColor; note?: string | null }
+): Promise<Annotation | null> {
+  if (changes.color !== undefined && !isAnnotationColor(changes.color)) {
+    return null;
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("annotations")
+    .update({
+      ...(changes.color !== undefined && { color: changes.color }),
+      ...(changes.note !== undefined && { note: cleanNote(changes.note) }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", annotationId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error("[annotations] Update failed:", error?.message);
+    return null;
+  }
+  return data as Annotation;
+}
+
+/**
+ * Delete an annotation.
+ */
+export async function deleteAnnotation(annotationId: string): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from("annotations")
+    .delete()
+    .eq("id", annotationId);
+
+  return !error;
+}
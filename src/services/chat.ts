@@ -0,0 +1,111 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { getLlmProvider } from "@/lib/llm";
+import {
+  answerRequest,
+  chatDocumentIds,
+  mapCitations,
+  NO_CONTEXT_ANSWER,
+  retrieveContext,
+} from "@/lib/chat/answer";
+import { appendThreadExchange } from "./threads";
+
+// ---------- Types ----------
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** A retrieved passage the answer was grounded in */
+export interface ChatCitation {
+  /** 1-indexed marker used in the answer text, e.g. [1] */
+  marker: number;
+  chunkId: string;
+  /**
+   * Document the passage comes from. Citations saved before chats could
+   * span several documents lack it; they belong to the thread's document.
+   */
+  documentId?: string;
+  fileName?: string;
+  page_start: number;
+  page_end: number;
+  /** Short excerpt of the passage for display */
+  excerpt: string;
+}
+
+export interface ChatAnswer {
+  answer: string;
+  /** Only the passages the answer actually cites, in marker order */
+  citations: ChatCitation[];
+}
+
+// ---------- Public server actions ----------
+
+/**
+ * Answer a question about a document using retrieval-augmented generation.
+ * Pass `otherDocumentIds` to ask across several documents at once.
+ *
+ * Flow:
+ * 1. Retrieve the most relevant chunks from every document with
+ *    `searchChunks` and fuse the rankings
+ * 2. Number them as passages and send them to the LLM with the question
+ *    and recent conversation history
+ * 3. Map the [n] markers in the answer back to (document, page) pairs
+ * 4. If a thread is given, persist the exchange to it
+ *
+ * The streaming equivalent lives at POST /api/chat/stream.
+ */
+export async function askQuestion(
+  documentId: string,
+  question: string,
+  history: ChatMessage[] = [],
+  threadId?: string,
+  otherDocumentIds: string[] = []
+): Promise<ChatAnswer> {
+  const trimmed = question.trim();
+  if (!trimmed) {
+    return { answer: "", citations: [] };
+  }
+
+  // 1. Retrieve context
+  const supabase = await createClient();
+  const chunks = await retrieveContext(
+    supabase,
+    chatDocumentIds(documentId, otherDocumentIds),
+    trimmed
+  );
+  console.log(`[chat] Retrieved ${chunks.length} chunks for question`);
+
+  if (chunks.length === 0) {
+    if (threadId) {
+      await appendThreadExchange(threadId, trimmed, NO_CONTEXT_ANSWER, []);
+    }
+    return { answer: NO_CONTEXT_ANSWER, citations: [] };
+  }
+
+  // 2. Ask the model
+  const answer = (
+    await getLlmProvider().generateText(
+      answerRequest(chunks, trimmed, history)
+    )
+  ).trim();
+  if (!answer) {
+    console.warn("[chat] Empty answer from model");
+    return {
+      answer: "Sorry, I couldn't generate an answer. Please try again.",
+      citations: [],
+    };
+  }
+
+  // 3. Map markers back to chunks
+  const citations = mapCitations(answer, chunks);
+
+  // 4. Persist
+  if (threadId) {
+    await appendThreadExchange(threadId, trimmed, answer, citations);
+  }
+
+  return { answer, citations };
+}
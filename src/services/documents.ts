@@ -1,6 +1,8 @@
 "use server";
 
 import { createClient } from "@/lib/supabase/server";
+import { enqueueProcessingJob } from "@/lib/jobs/queue";
+import { kickWorker } from "@/lib/jobs/worker";
 
 // ---------- Types ----------
 
@@ -14,6 +16,35 @@ export interface Document {
   file_size: number;
   total_pages: number | null;
   status: "uploading" | "processing" | "ready" | "failed";
+  /** Current stage of processDocument while status is "processing" */
+  processing_progress: ProcessingProgress | null;
+  /** Why the last processing run failed, if it did */
+  processing_error: string | null;
+  /** Pages whose text came from OCR because they had no usable text layer */
+  ocr_pages: number[] | null;
+  /** Embedding model and vector size the chunks were embedded with */
+  embedding_model: string | null;
+  embedding_dims: number | null;
+  /** Model being re-embedded to, while a re-index is in progress */
+  next_embedding_model: string | null;
+  next_embedding_dims: number | null;
+}
+
+export type ProcessingStage =
+  | "download"
+  | "extract"
+  | "ocr"
+  | "chunk"
+  | "embed"
+  | "insert";
+
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  /** 1-indexed page being OCR'd (ocr stage) or batch being embedded (embed stage) */
+  current?: number;
+  /** Total number of pages / batches in this stage */
+  total?: number;
+  updated_at: string;
 }
 
 interface UploadResult {
@@ -49,6 +80,7 @@ async function checkActiveSubscription(supabase: any, userId: string): Promise<b
  * 2. Insert a document row with status "uploading"
  * 3. Upload the file to Supabase Storage at `{user_id}/{document_id}/{filename}`
  * 4. Update the document row with the storage path and status "processing"
+ * 5. Enqueue a background processing job and start a worker run
  *
  * Returns the document record (with status "processing") or an error string.
  */
@@ -186,6 +218,14 @@ export async function uploadDocument(
     };
   }
 
+  // 8. Enqueue background processing — runs server-side regardless of the client
+  const enqueued = await enqueueProcessingJob(supabase, updated.id, user.id);
+  if (!enqueued) {
+    // Non-blocking — the sweeper re-enqueues documents left in "processing"
+    console.error("[uploadDocument] Failed to enqueue processing job");
+  }
+  kickWorker();
+
   console.log("[uploadDocument] Upload complete, document:", updated.id);
   return { document: updated as Document, error: null };
 }
@@ -239,7 +279,7 @@ export async function getDocumentDownloadUrl(
 export async function updateDocumentStatus(
   documentId: string,
   status: Document["status"],
-  extraFields?: { total_pages?: number }
+  extraFields?: { total_pages?: number; processing_error?: string | null }
 ): Promise<boolean> {
   const supabase = await createClient();
 
@@ -279,9 +319,11 @@ export async function listDocuments(): Promise<Document[]> {
 }
 
 /**
- * Delete a document, its storage file, associated chunks, and cached insights.
+ * Delete a document, its storage file, associated chunks, tables, cached
+ * insights, and chat threads.
  *
- * Because document_chunks and document_insights have ON DELETE CASCADE,
+ * Because document_chunks, document_tables, document_insights and
+ * chat_threads (and through it chat_messages) have ON DELETE CASCADE,
  * deleting the document row automatically removes related rows. We just
  * need to manually delete the Storage object.
  *
@@ -304,7 +346,8 @@ export async function deleteDocument(documentId: string): Promise<boolean> {
     await supabase.storage.from("pdfs").remove([doc.file_url]);
   }
 
-  // 3. Delete the document row (cascades to chunks + insights)
+  // 3. Delete the document row (cascades to chunks, insights + chat threads;
+  //    a trigger drops it from other threads' document_ids)
   const { error: deleteError } = await supabase
     .from("documents")
     .delete()
@@ -8,8 +8,28 @@ export {
   deleteDocument,
   getUploadCredits,
 } from "./documents";
-export type { Document, UploadCreditsInfo } from "./documents";
-export { processDocument, searchChunks } from "./rag";
+export type {
+  Document,
+  UploadCreditsInfo,
+  ProcessingStage,
+  ProcessingProgress,
+} from "./documents";
+export {
+  processDocument,
+  reindexDocuments,
+  listStaleEmbeddingDocuments,
+  searchChunks,
+  searchLibrary,
+} from "./rag";
+export type {
+  SearchMode,
+  ChunkSearchResult,
+  ChunkLocation,
+  TextBox,
+  LibrarySearchGroup,
+  ReindexOutcome,
+  ReindexSummary,
+} from "./rag";
 export {
   getCachedDocumentInsights,
   getInsightPlan,
@@ -25,3 +45,26 @@ export type {
   ResearchDirection,
   InsightPlan,
 } from "./insights";
+export { askQuestion } from "./chat";
+export type { ChatMessage, ChatCitation, ChatAnswer } from "./chat";
+export {
+  listThreads,
+  createThread,
+  renameThread,
+  setThreadDocuments,
+  deleteThread,
+  getThreadMessages,
+  appendThreadExchange,
+} from "./threads";
+export type { ChatThread, StoredChatMessage } from "./threads";
+export { getProcessingStatus, retryProcessing } from "./jobs";
+export type { ProcessingStatus } from "./jobs";
+export { getDocumentTables } from "./tables";
+export type { DocumentTable } from "./tables";
+export {
+  listAnnotations,
+  createAnnotation,
+  updateAnnotation,
+  deleteAnnotation,
+} from "./annotations";
+export type { Annotation, AnnotationQuad, NewAnnotation } from "./annotations";
@@ -0,0 +1,80 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { enqueueProcessingJob } from "@/lib/jobs/queue";
+import type { ProcessingJob } from "@/lib/jobs/queue";
+import { kickWorker } from "@/lib/jobs/worker";
+import type { Document } from "./documents";
+
+// ---------- Types ----------
+
+export interface ProcessingStatus {
+  document: Document;
+  /** Latest processing job for the document, if any */
+  job: Pick<
+    ProcessingJob,
+    "status" | "attempts" | "max_attempts" | "run_at" | "last_error"
+  > | null;
+}
+
+// ---------- Server Actions ----------
+
+/**
+ * Get a document together with its latest processing job, so the processing
+ * page can tell "failed for good" apart from "failed, retry scheduled".
+ */
+export async function getProcessingStatus(
+  documentId: string
+): Promise<ProcessingStatus | null> {
+  const supabase = await createClient();
+
+  const { data: doc, error } = await supabase
+    .from("documents")
+    .select("*")
+    .eq("id", documentId)
+    .single();
+
+  if (error || !doc) return null;
+
+  const { data: jobs } = await supabase
+    .from("processing_jobs")
+    .select("status, attempts, max_attempts, run_at, last_error")
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  return {
+    document: doc as Document,
+    job: (jobs?.[0] as ProcessingStatus["job"]) ?? null,
+  };
+}
+
+/**
+ * Re-enqueue processing for a failed document owned by the current user.
+ */
+export async function retryProcessing(documentId: string): Promise<boolean> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return false;
+
+  const { error: updateError } = await supabase
+    .from("documents")
+    .update({
+      status: "processing",
+      processing_progress: null,
+      processing_error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", documentId)
+    .eq("user_id", user.id);
+
+  if (updateError) return false;
+
+  const enqueued = await enqueueProcessingJob(supabase, documentId, user.id);
+  if (enqueued) kickWorker();
+  return enqueued;
+}
@@ -1,225 +1,281 @@
 "use server";
 
 import { createClient } from "@/lib/supabase/server";
-import PDFJS from "pdf2json";
-import { updateDocumentStatus } from "./documents";
+import type { ChunkLocation } from "@/lib/rag/chunking";
+import {
+  generateEmbeddings,
+  getEmbeddingProvider,
+  isEmbeddedWith,
+} from "@/lib/rag/embeddings";
+import type { EmbeddingSignature } from "@/lib/rag/embeddings";
+import { reciprocalRankFusion } from "@/lib/rag/fusion";
+import { getReranker, selectDiverse } from "@/lib/rag/rerank";
+import { runProcessingPipeline } from "@/lib/rag/pipeline";
+import { reindexDocuments as runReindex } from "@/lib/rag/reindex";
+import type { ReindexSummary } from "@/lib/rag/reindex";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
 
-// ---------- Config ----------
+// ---------- Types ----------
 
-const CHUNK_SIZE = 800; // target tokens per chunk (roughly 1 token ≈ 4 chars)
-const CHUNK_OVERLAP = 100; // overlap in tokens for context continuity
-const EMBEDDING_MODEL = "gemini-embedding-001"; // Gemini: 3072 native, truncated to 768
-const EMBEDDING_DIMS = 768; // outputDimensionality — matches DB vector(768)
-const EMBEDDING_BATCH_SIZE = 20; // max chunks per embedding API call
-const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta";
+export type SearchMode = "hybrid" | "semantic" | "keyword";
 
-// ---------- Types ----------
+export type { ReindexOutcome, ReindexSummary } from "@/lib/rag/reindex";
+export type { ChunkLocation } from "@/lib/rag/chunking";
+export type { TextBox } from "@/lib/rag/extract";
 
-interface TextChunk {
+export interface ChunkSearchResult {
+  id: string;
+  chunk_index: number;
   content: string;
   page_start: number;
   page_end: number;
   token_count: number;
+  /** Cosine similarity, or null when only the keyword search matched */
+  similarity: number | null;
+  /** Ranking score for the mode: similarity, text rank or fused RRF score */
+  score: number;
+  /** Reranker relevance in [0, 1], or null when no reranker ran */
+  rerank_score: number | null;
+  /**
+   * Character offsets and boxes of the chunk on each page it spans, or
+   * null for chunks stored before locations were recorded
+   */
+  locations: ChunkLocation[] | null;
 }
 
-interface PageText {
-  page: number;
-  text: string;
+/** Library search hits from one document */
+export interface LibrarySearchGroup {
+  documentId: string;
+  fileName: string;
+  hits: ChunkSearchResult[];
 }
 
+// ---------- Config ----------
+
+/** Minimum cosine similarity for semantic matches */
+const DEFAULT_MATCH_THRESHOLD = 0.3;
+/** Each hybrid leg fetches this many times the requested results */
+const HYBRID_CANDIDATE_FACTOR = 3;
+/** searchChunks reranks this many times the requested results */
+const RERANK_CANDIDATE_FACTOR = 3;
+
 // ---------- Internal helpers ----------
 
-function getGeminiApiKey(): string {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error("GEMINI_API_KEY environment variable is not set.");
-  }
-  return apiKey;
-}
+/** Where to search: one document, or the user's ready documents (all or some) */
+type SearchScope = { documentId: string } | { documentIds: string[] | null };
 
-/**
- * Rough token count estimate. ~4 chars per token for English text.
- * Good enough for chunking; exact counts aren't critical.
- */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
+/** A result from either scope; library results also carry their document */
+type ScopedResult = ChunkSearchResult & { document_id?: string };
 
-/**
- * Extract text from a PDF buffer using pdf2json (pure Node.js, SSR-compatible).
- * Returns per-page text and total page count.
- */
-async function extractTextFromPdf(
-  buffer: Buffer,
-): Promise<{ pages: PageText[]; totalPages: number }> {
-  return new Promise((resolve, reject) => {
-    const pdfParser = new PDFJS();
-
-    pdfParser.on("pdfParser_dataError", (errData: Error | { parserError: Error }) => {
-      const err = errData instanceof Error ? errData : errData.parserError;
-      reject(new Error(`Failed to parse PDF: ${err.message}`));
-    });
-
-    pdfParser.on("pdfParser_dataReady", (pdfData: { Pages: Array<{ Texts: Array<{ R: Array<{ T: string }> }> }> }) => {
-      try {
-        const pageTexts: PageText[] = pdfData.Pages.map((page, index) => {
-          const text = page.Texts.map((textItem) =>
-            decodeURIComponent(textItem.R.map((r) => r.T).join(""))
-          ).join(" ");
-          return {
-            page: index + 1, // 1-indexed
-            text: text,
-          };
-        });
+async function semanticSearch(
+  supabase: SupabaseServerClient,
+  scope: SearchScope,
+  query: string,
+  matchCount: number,
+  matchThreshold: number,
+): Promise<ScopedResult[]> {
+  const provider = getEmbeddingProvider();
+
+  // Vectors from another embedding model can't be compared with the query's;
+  // such documents are found by keyword only until they are reindexed
+  if ("documentId" in scope) {
+    const { data: doc } = await supabase
+      .from("documents")
+      .select("embedding_model, embedding_dims")
+      .eq("id", scope.documentId)
+      .single();
+    if (doc && !isEmbeddedWith(doc as EmbeddingSignature, provider)) {
+      console.warn(
+        `[search] Document ${scope.documentId} was embedded with ${doc.embedding_model}, not ${provider.model}; skipping semantic search`,
+      );
+      return [];
+    }
+  }
 
-        resolve({
-          pages: pageTexts,
-          totalPages: pageTexts.length,
+  // Generate embedding for the query using RETRIEVAL_QUERY task type
+  const [queryEmbedding] = await generateEmbeddings(
+    [query],
+    "RETRIEVAL_QUERY",
+    provider,
+  );
+
+  const { data, error } =
+    "documentId" in scope
+      ? await supabase.rpc("match_document_chunks", {
+          query_embedding: JSON.stringify(queryEmbedding),
+          target_document_id: scope.documentId,
+          match_threshold: matchThreshold,
+          match_count: matchCount,
+        })
+      : await supabase.rpc("match_library_chunks", {
+          query_embedding: JSON.stringify(queryEmbedding),
+          document_ids: scope.documentIds,
+          match_threshold: matchThreshold,
+          match_count: matchCount,
+          query_embedding_model: provider.model,
         });
-      } catch (err) {
-        reject(new Error(`Failed to extract text: ${err}`));
-      }
-    });
 
-    pdfParser.parseBuffer(buffer);
-  });
+  if (error) {
+    console.error("Chunk search error:", error.message);
+    return [];
+  }
+
+  return (
+    (data ?? []) as Omit<ScopedResult, "score" | "rerank_score" | "locations">[]
+  ).map((c) => ({
+    ...c,
+    score: c.similarity ?? 0,
+    rerank_score: null,
+    locations: null,
+  }));
 }
 
-/**
- * Split page-level text into overlapping chunks of roughly CHUNK_SIZE tokens.
- * Chunks respect sentence boundaries where possible and track which pages
- * they span.
- */
-function chunkText(pages: PageText[]): TextChunk[] {
-  const chunks: TextChunk[] = [];
-
-  // Build a single stream of sentences with page annotations
-  const sentences: { text: string; page: number }[] = [];
-  for (const { page, text } of pages) {
-    // Split on sentence boundaries (period/question/exclamation followed by space or newline)
-    const parts = text.split(/(?<=[.!?])\s+/);
-    for (const part of parts) {
-      const trimmed = part.trim();
-      if (trimmed.length > 0) {
-        sentences.push({ text: trimmed, page });
-      }
-    }
+async function keywordSearch(
+  supabase: SupabaseServerClient,
+  scope: SearchScope,
+  query: string,
+  matchCount: number,
+): Promise<ScopedResult[]> {
+  const { data, error } =
+    "documentId" in scope
+      ? await supabase.rpc("keyword_search_document_chunks", {
+          search_query: query,
+          target_document_id: scope.documentId,
+          match_count: matchCount,
+        })
+      : await supabase.rpc("keyword_search_library_chunks", {
+          search_query: query,
+          document_ids: scope.documentIds,
+          match_count: matchCount,
+        });
+
+  if (error) {
+    console.error("Keyword search error:", error.message);
+    return [];
   }
 
-  if (sentences.length === 0) return [];
-
-  let currentChunk: string[] = [];
-  let currentTokens = 0;
-  let chunkPageStart = sentences[0]!.page;
-  let chunkPageEnd = sentences[0]!.page;
-
-  for (const sentence of sentences) {
-    const sentenceTokens = estimateTokens(sentence.text);
-
-    // If adding this sentence would exceed the chunk size, finalize the current chunk
-    if (
-      currentTokens + sentenceTokens > CHUNK_SIZE &&
-      currentChunk.length > 0
-    ) {
-      const content = currentChunk.join(" ");
-      chunks.push({
-        content,
-        page_start: chunkPageStart,
-        page_end: chunkPageEnd,
-        token_count: estimateTokens(content),
-      });
-
-      // Build overlap: take the last few sentences that fit within CHUNK_OVERLAP tokens
-      let overlapTokens = 0;
-      let overlapStart = currentChunk.length;
-      for (let i = currentChunk.length - 1; i >= 0; i--) {
-        const t = estimateTokens(currentChunk[i]!);
-        if (overlapTokens + t > CHUNK_OVERLAP) break;
-        overlapTokens += t;
-        overlapStart = i;
+  return (
+    (data ?? []) as Array<
+      Omit<
+        ScopedResult,
+        "similarity" | "score" | "rerank_score" | "locations"
+      > & {
+        rank: number;
       }
+    >
+  ).map(({ rank, ...c }) => ({
+    ...c,
+    similarity: null,
+    score: rank,
+    rerank_score: null,
+    locations: null,
+  }));
+}
 
-      currentChunk = currentChunk.slice(overlapStart);
-      currentTokens = overlapTokens;
-      chunkPageStart = sentence.page; // approximate — overlap may span back
-    }
-
-    currentChunk.push(sentence.text);
-    currentTokens += sentenceTokens;
-    chunkPageEnd = sentence.page;
+/** Run a search in the given mode, fusing both legs for "hybrid" */
+async function runSearch(
+  supabase: SupabaseServerClient,
+  scope: SearchScope,
+  query: string,
+  matchCount: number,
+  matchThreshold: number,
+  mode: SearchMode,
+): Promise<ScopedResult[]> {
+  if (mode === "semantic") {
+    return semanticSearch(supabase, scope, query, matchCount, matchThreshold);
   }
-
-  // Finalize last chunk
-  if (currentChunk.length > 0) {
-    const content = currentChunk.join(" ");
-    chunks.push({
-      content,
-      page_start: chunkPageStart,
-      page_end: chunkPageEnd,
-      token_count: estimateTokens(content),
-    });
+  if (mode === "keyword") {
+    return keywordSearch(supabase, scope, query, matchCount);
   }
 
-  return chunks;
+  // Hybrid: over-fetch from both legs, then fuse by rank
+  const candidates = matchCount * HYBRID_CANDIDATE_FACTOR;
+  const [semantic, keyword] = await Promise.all([
+    semanticSearch(supabase, scope, query, candidates, matchThreshold),
+    keywordSearch(supabase, scope, query, candidates),
+  ]);
+
+  const similarityById = new Map(semantic.map((c) => [c.id, c.similarity]));
+  return reciprocalRankFusion([semantic, keyword])
+    .slice(0, matchCount)
+    .map(({ item, score }) => ({
+      ...item,
+      similarity: similarityById.get(item.id) ?? null,
+      score,
+    }));
 }
 
 /**
- * Generate embeddings for an array of text chunks using Gemini's
- * batchEmbedContents REST API with gemini-embedding-001.
- * Uses outputDimensionality to truncate to 768 dims (HNSW limit is 2000).
- * Returns embeddings in the same order as the input chunks.
+ * Rerank candidates, then pick `count` of them by maximal marginal
+ * relevance. Without a reranker, or when it fails, retrieval rank stands
+ * in for relevance so MMR still spreads results over distinct passages.
  */
-async function generateEmbeddings(
-  texts: string[],
-  taskType: "RETRIEVAL_DOCUMENT" | "RETRIEVAL_QUERY" = "RETRIEVAL_DOCUMENT",
-): Promise<number[][]> {
-  const apiKey = getGeminiApiKey();
-  const allEmbeddings: number[][] = [];
-
-  // Process in batches to avoid API limits
-  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
-    const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
-
-    const response = await fetch(
-      `${GEMINI_API_BASE}/models/${EMBEDDING_MODEL}:batchEmbedContents?key=${apiKey}`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          requests: batch.map((text) => ({
-            model: `models/${EMBEDDING_MODEL}`,
-            content: { parts: [{ text }] },
-            taskType,
-            outputDimensionality: EMBEDDING_DIMS,
-          })),
-        }),
-      },
-    );
+async function rerankResults(
+  query: string,
+  candidates: ScopedResult[],
+  count: number,
+): Promise<ScopedResult[]> {
+  if (candidates.length === 0) return candidates;
 
-    if (!response.ok) {
-      const errorBody = await response.text();
-      throw new Error(
-        `Gemini embedding API error (${response.status}): ${errorBody}`,
+  let scored = candidates;
+  let relevance = candidates.map((_, i) => 1 - i / candidates.length);
+  try {
+    const reranker = getReranker();
+    if (reranker) {
+      const scores = await reranker.score(
+        query,
+        candidates.map((c) => c.content),
       );
+      scored = candidates.map((c, i) => ({ ...c, rerank_score: scores[i]! }));
+      relevance = scores;
     }
+  } catch (err) {
+    console.error("[rerank] Reranking failed, keeping retrieval order:", err);
+  }
 
-    const data = await response.json();
-    for (const embedding of data.embeddings) {
-      allEmbeddings.push(embedding.values);
-    }
+  return selectDiverse(scored, relevance, count);
+}
+
+/**
+ * Fill in the results' locations, which the search RPCs don't return;
+ * looked up only for the final results, not every candidate.
+ */
+async function withLocations(
+  supabase: SupabaseServerClient,
+  results: ScopedResult[],
+): Promise<ScopedResult[]> {
+  if (results.length === 0) return results;
+
+  const { data, error } = await supabase
+    .from("document_chunks")
+    .select("id, locations")
+    .in(
+      "id",
+      results.map((r) => r.id),
+    );
+  if (error) {
+    console.error("[search] Failed to load chunk locations:", error.message);
+    return results;
   }
 
-  return allEmbeddings;
+  const locations = new Map(
+    (data ?? []).map((row) => [
+      row.id as string,
+      row.locations as ChunkLocation[] | null,
+    ]),
+  );
+  return results.map((r) => ({ ...r, locations: locations.get(r.id) ?? null }));
 }
 
 // ---------- Main pipeline ----------
 
 /**
- * Process a document: extract text, chunk it, generate embeddings, and store
- * everything in the document_chunks table.
+ * Process a document in the current user's session: extract text, chunk it,
+ * generate embeddings, and store everything in the document_chunks table.
  *
- * This is the main RAG pipeline entry point. Call after a PDF has been uploaded
- * to Supabase Storage.
+ * Uploads normally go through the background job queue (see `lib/jobs`);
+ * this runs the same pipeline synchronously for callers that want to wait.
  *
  * @param documentId - The document UUID (must already exist in `documents` table)
  * @returns true on success, error string on failure
@@ -227,182 +283,143 @@ async function generateEmbeddings(
 export async function processDocument(
   documentId: string,
 ): Promise<{ success: true } | { success: false; error: string }> {
-  console.log("[processDocument] Starting for document:", documentId);
   const supabase = await createClient();
+  return runProcessingPipeline(supabase, documentId);
+}
 
-  try {
-    // 1. Get the document record
-    console.log("[processDocument] Fetching document record...");
-    const { data: doc, error: docError } = await supabase
-      .from("documents")
-      .select("*")
-      .eq("id", documentId)
-      .single();
-
-    if (docError || !doc) {
-      console.error("[processDocument] Document not found:", docError?.message);
-      return { success: false, error: "Document not found." };
-    }
-    console.log(
-      "[processDocument] Document found:",
-      doc.file_name,
-      "file_url:",
-      doc.file_url,
-    );
-
-    // 2. Download the PDF from Supabase Storage
-    console.log("[processDocument] Downloading PDF from storage...");
-    const { data: fileData, error: downloadError } = await supabase.storage
-      .from("pdfs")
-      .download(doc.file_url);
-
-    if (downloadError || !fileData) {
-      console.error(
-        "[processDocument] Download failed:",
-        downloadError?.message,
-      );
-      await updateDocumentStatus(documentId, "failed");
-      return {
-        success: false,
-        error: `Failed to download PDF: ${downloadError?.message ?? "unknown"}`,
-      };
-    }
-    console.log("[processDocument] PDF downloaded, size:", fileData.size);
-
-    // 3. Extract text from PDF
-    console.log("[processDocument] Extracting text...");
-    const buffer = Buffer.from(await fileData.arrayBuffer());
-    const { pages, totalPages } = await extractTextFromPdf(buffer);
-    console.log(
-      "[processDocument] Extracted",
-      pages.length,
-      "pages, total:",
-      totalPages,
-    );
-
-    if (pages.length === 0) {
-      console.error("[processDocument] No text extracted");
-      await updateDocumentStatus(documentId, "failed");
-      return {
-        success: false,
-        error: "Could not extract any text from the PDF.",
-      };
-    }
-
-    // Update total_pages on the document
-    await updateDocumentStatus(documentId, "processing", {
-      total_pages: totalPages,
-    });
-
-    // 4. Chunk the text
-    console.log("[processDocument] Chunking text...");
-    const chunks = chunkText(pages);
-    console.log("[processDocument] Generated", chunks.length, "chunks");
-    if (chunks.length === 0) {
-      console.error("[processDocument] No chunks generated");
-      await updateDocumentStatus(documentId, "failed");
-      return { success: false, error: "No text chunks could be generated." };
-    }
-
-    // 5. Generate embeddings
-    console.log(
-      "[processDocument] Generating embeddings for",
-      chunks.length,
-      "chunks...",
-    );
-    const embeddings = await generateEmbeddings(chunks.map((c) => c.content));
-    console.log("[processDocument] Embeddings generated:", embeddings.length);
-
-    // 6. Insert chunks with embeddings into document_chunks
-    console.log("[processDocument] Inserting chunks into database...");
-    const rows = chunks.map((chunk, i) => ({
-      document_id: documentId,
-      chunk_index: i,
-      content: chunk.content,
-      page_start: chunk.page_start,
-      page_end: chunk.page_end,
-      token_count: chunk.token_count,
-      embedding: JSON.stringify(embeddings[i]),
-    }));
+/**
+ * Re-embed the user's documents (or only `documentIds`) that were embedded
+ * with a different model than the configured provider's. Each document
+ * keeps its old vectors until all of its new ones are written, then
+ * switches over atomically. Until then its old vectors can't be compared
+ * with queries embedded by the new model, so searches over it are
+ * keyword-only (see `listStaleEmbeddingDocuments`). Stops after a time
+ * budget; call again while `remaining` is non-zero.
+ */
+export async function reindexDocuments(
+  documentIds?: string[],
+): Promise<ReindexSummary> {
+  const supabase = await createClient();
+  return runReindex(supabase, { documentIds });
+}
 
-    // Insert in batches of 50 to avoid payload size limits
-    const BATCH_SIZE = 50;
-    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
-      const batch = rows.slice(i, i + BATCH_SIZE);
-      console.log(
-        "[processDocument] Inserting batch",
-        Math.floor(i / BATCH_SIZE) + 1,
-        "of",
-        Math.ceil(rows.length / BATCH_SIZE),
-      );
-      const { error: insertError } = await supabase
-        .from("document_chunks")
-        .insert(batch);
-
-      if (insertError) {
-        console.error(
-          "[processDocument] Chunk insert failed:",
-          insertError.message,
-        );
-        await updateDocumentStatus(documentId, "failed");
-        return {
-          success: false,
-          error: `Failed to store chunks: ${insertError.message}`,
-        };
-      }
-    }
+/**
+ * The user's ready documents (or those among `documentIds`) still embedded
+ * with another model than the configured provider's. Semantic search skips
+ * them until they are reindexed, so searches over them only find keyword
+ * matches.
+ */
+export async function listStaleEmbeddingDocuments(
+  documentIds?: string[],
+): Promise<string[]> {
+  if (documentIds?.length === 0) return [];
 
-    // 7. Mark document as ready
-    console.log("[processDocument] All chunks inserted. Marking as ready...");
-    await updateDocumentStatus(documentId, "ready");
-    console.log("[processDocument] Document processing complete!");
-    return { success: true };
-  } catch (err) {
-    console.error("[processDocument] Unexpected error:", err);
-    await updateDocumentStatus(documentId, "failed");
-    return {
-      success: false,
-      error: err instanceof Error ? err.message : "Unknown processing error.",
-    };
-  }
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  let request = supabase
+    .from("documents")
+    .select("id, embedding_model, embedding_dims")
+    .eq("user_id", user.id)
+    .eq("status", "ready");
+  if (documentIds) request = request.in("id", documentIds);
+
+  const { data, error } = await request;
+  if (error || !data) return [];
+
+  const provider = getEmbeddingProvider();
+  return (data as Array<EmbeddingSignature & { id: string }>)
+    .filter((doc) => !isEmbeddedWith(doc, provider))
+    .map((doc) => doc.id);
 }
 
 /**
- * Search for relevant chunks using cosine similarity via the
- * match_document_chunks RPC function.
+ * Search for relevant chunks.
+ *
+ * - "semantic": cosine similarity via the match_document_chunks RPC
+ * - "keyword": full-text search via the keyword_search_document_chunks RPC,
+ *   which catches exact terms (identifiers, gene names, equation labels)
+ *   that embeddings blur
+ * - "hybrid" (default): both legs fused with reciprocal rank fusion
+ *
+ * A larger candidate set is then reordered by the configured reranker (see
+ * `lib/rag/rerank`) and thinned with MMR, so overlapping chunks of one
+ * passage don't crowd out other relevant pages.
+ *
+ * `matchThreshold` applies to the semantic leg only.
  */
 export async function searchChunks(
   documentId: string,
   query: string,
   matchCount: number = 8,
-  matchThreshold: number = 0.3,
-): Promise<
-  Array<{
-    id: string;
-    chunk_index: number;
-    content: string;
-    page_start: number;
-    page_end: number;
-    token_count: number;
-    similarity: number;
-  }>
-> {
+  matchThreshold: number = DEFAULT_MATCH_THRESHOLD,
+  mode: SearchMode = "hybrid",
+): Promise<ChunkSearchResult[]> {
   const supabase = await createClient();
+  const candidates = await runSearch(
+    supabase,
+    { documentId },
+    query,
+    matchCount * RERANK_CANDIDATE_FACTOR,
+    matchThreshold,
+    mode,
+  );
+  return withLocations(
+    supabase,
+    await rerankResults(query, candidates, matchCount),
+  );
+}
 
-  // Generate embedding for the query using RETRIEVAL_QUERY task type
-  const [queryEmbedding] = await generateEmbeddings([query], "RETRIEVAL_QUERY");
-
-  const { data, error } = await supabase.rpc("match_document_chunks", {
-    query_embedding: JSON.stringify(queryEmbedding),
-    target_document_id: documentId,
-    match_threshold: matchThreshold,
-    match_count: matchCount,
-  });
+/**
+ * Search across the user's library: every ready document they own, or
+ * only `documentIds` when given. Hits are grouped by document, with the
+ * documents ordered by their best hit.
+ */
+export async function searchLibrary(
+  query: string,
+  options: {
+    documentIds?: string[];
+    mode?: SearchMode;
+    matchCount?: number;
+  } = {},
+): Promise<LibrarySearchGroup[]> {
+  const { documentIds, mode = "hybrid", matchCount = 20 } = options;
+  const trimmed = query.trim();
+  if (!trimmed || documentIds?.length === 0) return [];
 
-  if (error) {
-    console.error("Chunk search error:", error.message);
-    return [];
+  const supabase = await createClient();
+  const hits = await withLocations(
+    supabase,
+    await runSearch(
+      supabase,
+      { documentIds: documentIds ?? null },
+      trimmed,
+      matchCount,
+      DEFAULT_MATCH_THRESHOLD,
+      mode,
+    ),
+  );
+  if (hits.length === 0) return [];
+
+  // Hits are ranked best-first, so a Map keeps documents in best-hit order
+  const byDocument = new Map<string, ChunkSearchResult[]>();
+  for (const { document_id, ...hit } of hits) {
+    if (!document_id) continue;
+    byDocument.set(document_id, [...(byDocument.get(document_id) ?? []), hit]);
   }
 
-  return data ?? [];
+  const { data: docs } = await supabase
+    .from("documents")
+    .select("id, file_name")
+    .in("id", [...byDocument.keys()]);
+  const fileNames = new Map((docs ?? []).map((d) => [d.id, d.file_name]));
+
+  return [...byDocument].map(([documentId, documentHits]) => ({
+    documentId,
+    fileName: fileNames.get(documentId) ?? "document.pdf",
+    hits: documentHits,
+  }));
 }
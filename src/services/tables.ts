@@ -0,0 +1,37 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+
+// ---------- Types ----------
+
+export interface DocumentTable {
+  id: string;
+  document_id: string;
+  /** Position among the document's tables, in reading order */
+  table_index: number;
+  page: number;
+  caption: string | null;
+  /** Cell text by row; the first row is the header */
+  rows: string[][];
+  created_at: string;
+}
+
+// ---------- Server Actions ----------
+
+/**
+ * Get the tables extracted from a document, in reading order.
+ */
+export async function getDocumentTables(
+  documentId: string
+): Promise<DocumentTable[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("document_tables")
+    .select("*")
+    .eq("document_id", documentId)
+    .order("table_index", { ascending: true });
+
+  if (error || !data) return [];
+  return data as DocumentTable[];
+}
@@ -0,0 +1,286 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import type { ChatCitation } from "./chat";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// ---------- Types ----------
+
+export interface ChatThread {
+  id: string;
+  /** Document the thread was started from */
+  document_id: string;
+  /** Other documents the thread retrieves from */
+  document_ids: string[];
+  user_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StoredChatMessage {
+  id: string;
+  thread_id: string;
+  role: "user" | "assistant";
+  content: string;
+  citations: ChatCitation[];
+  created_at: string;
+}
+
+// ---------- Config ----------
+
+const DEFAULT_THREAD_TITLE = "New chat";
+const MAX_TITLE_LENGTH = 60;
+
+// ---------- Internal helpers ----------
+
+/** Derive a thread title from the first question asked in it */
+function titleFromQuestion(question: string): string {
+  const clean = question.replace(/\s+/g, " ").trim();
+  return clean.length > MAX_TITLE_LENGTH
+    ? `${clean.slice(0, MAX_TITLE_LENGTH).trimEnd()}…`
+    : clean;
+}
+
+/** The subset of `documentIds` owned by `userId`, in the order given */
+async function ownedDocumentIds(
+  supabase: SupabaseServerClient,
+  userId: string,
+  documentIds: string[]
+): Promise<string[]> {
+  const unique = [...new Set(documentIds)];
+  if (unique.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("documents")
+    .select("id")
+    .eq("user_id", userId)
+    .in("id", unique);
+
+  if (error || !data) return [];
+  const owned = new Set(data.map((d: { id: string }) => d.id));
+  return unique.filter((id) => owned.has(id));
+}
+
+// ---------- Server Actions ----------
+
+/**
+ * List the current user's chat threads for a document, including
+ * multi-document threads started from another document,
+ * most recently active first.
+ */
+export async function listThreads(documentId: string): Promise<ChatThread[]> {
+  const supabase = await createClient();
+
+  // Two typed filters rather than one .or() string, which would splice
+  // the id into PostgREST's filter syntax
+  const [started, spanning] = await Promise.all([
+    supabase.from("chat_threads").select("*").eq("document_id", documentId),
+    supabase
+      .from("chat_threads")
+      .select("*")
+      .contains("document_ids", [documentId]),
+  ]);
+
+  if (started.error || spanning.error) return [];
+
+  const threads = new Map<string, ChatThread>();
+  for (const thread of [...started.data, ...spanning.data] as ChatThread[]) {
+    threads.set(thread.id, thread);
+  }
+  return [...threads.values()].sort((a, b) =>
+    b.updated_at.localeCompare(a.updated_at)
+  );
+}
+
+/**
+ * Create a new chat thread for a document, optionally spanning other
+ * documents too. Documents the user doesn't own are left out. Returns null
+ * if the user is not signed in, doesn't own `documentId` or the insert
+ * fails.
+ */
+export async function createThread(
+  documentId: string,
+  title: string = DEFAULT_THREAD_TITLE,
+  otherDocumentIds: string[] = []
+): Promise<ChatThread | null> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return null;
+
+  // Only the user's own documents; the thread's own one is required
+  const owned = await ownedDocumentIds(supabase, user.id, [
+    documentId,
+    ...otherDocumentIds,
+  ]);
+  if (!owned.includes(documentId)) return null;
+
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .insert({
+      document_id: documentId,
+      document_ids: owned.filter((id) => id !== documentId),
+      user_id: user.id,
+      title: title.trim() || DEFAULT_THREAD_TITLE,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error("[threads] Create failed:", error?.message);
+    return null;
+  }
+  return data as ChatThread;
+}
+
+/**
+ * Rename a chat thread.
+ */
+export async function renameThread(
+  threadId: string,
+  title: string
+): Promise<boolean> {
+  const trimmed = title.trim();
+  if (!trimmed) return false;
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from("chat_threads")
+    .update({
+      title: trimmed.slice(0, MAX_TITLE_LENGTH * 2),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", threadId);
+
+  return !error;
+}
+
+/**
+ * Replace the set of documents a thread spans. `documentIds` may include the
+ * thread's own document, which always stays part of it; documents the user
+ * doesn't own are dropped. Returns the new list of other documents, or null
+ * if the update fails.
+ */
+export async function setThreadDocuments(
+  threadId: string,
+  documentIds: string[]
+): Promise<string[] | null> {
+  const supabase = await createClient();
+
+  const { data: thread } = await supabase
+    .from("chat_threads")
+    .select("document_id")
+    .eq("id", threadId)
+    .single();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!thread || !user) return null;
+
+  // Documents the user doesn't own are dropped
+  const owned = await ownedDocumentIds(supabase, user.id, documentIds);
+  const others = owned.filter((id) => id !== thread.document_id);
+  const { error } = await supabase
+    .from("chat_threads")
+    .update({ document_ids: others })
+    .eq("id", threadId);
+
+  if (error) {
+    console.error("[threads] Failed to update documents:", error.message);
+    return null;
+  }
+  return others;
+}
+
+/**
+ * Delete a chat thread. Messages are removed by ON DELETE CASCADE.
+ */
+export async function deleteThread(threadId: string): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from("chat_threads")
+    .delete()
+    .eq("id", threadId);
+
+  return !error;
+}
+
+/**
+ * Get all messages in a thread, oldest first.
+ */
+export async function getThreadMessages(
+  threadId: string
+): Promise<StoredChatMessage[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .select("*")
+    .eq("thread_id", threadId)
+    .order("created_at", { ascending: true });
+
+  if (error || !data) return [];
+  return data as StoredChatMessage[];
+}
+
+/**
+ * Append a question and its answer to a thread and bump the thread's
+ * `updated_at`. The first exchange in an untitled thread also sets its title.
+ */
+export async function appendThreadExchange(
+  threadId: string,
+  question: string,
+  answer: string,
+  citations: ChatCitation[]
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  // Insert sequentially so created_at keeps question before answer
+  const { error: questionError } = await supabase
+    .from("chat_messages")
+    .insert({ thread_id: threadId, role: "user", content: question });
+
+  if (questionError) {
+    console.error("[threads] Failed to store question:", questionError.message);
+    return false;
+  }
+
+  const { error: answerError } = await supabase.from("chat_messages").insert({
+    thread_id: threadId,
+    role: "assistant",
+    content: answer,
+    citations: citations as unknown as Record<string, unknown>[],
+  });
+
+  if (answerError) {
+    console.error("[threads] Failed to store answer:", answerError.message);
+    return false;
+  }
+
+  const { data: thread } = await supabase
+    .from("chat_threads")
+    .select("title")
+    .eq("id", threadId)
+    .single();
+
+  await supabase
+    .from("chat_threads")
+    .update({
+      updated_at: new Date().toISOString(),
+      ...(thread?.title === DEFAULT_THREAD_TITLE && {
+        title: titleFromQuestion(question),
+      }),
+    })
+    .eq("id", threadId);
+
+  return true;
+}
@@ -0,0 +1,26 @@
+/** Highlight colors a user can pick for an annotation, in menu order */
+export const ANNOTATION_COLORS = [
+  "yellow",
+  "green",
+  "blue",
+  "pink",
+  "purple"
+] as const;
+
+export type AnnotationColor = (typeof ANNOTATION_COLORS)[number];
+
+/**
+ * Fill of each highlight color as hex RGB, shared by the viewer and
+ * exports so a highlight looks the same everywhere.
+ */
+export const ANNOTATION_COLOR_HEX: Record<AnnotationColor, string> = {
+  yellow: "#fde047",
+  green: "#86efac",
+  blue: "#93c5fd",
+  pink: "#f9a8d4",
+  purple: "#c4b5fd"
+};
+
+export function isAnnotationColor(value: unknown): value is AnnotationColor {
+  return (ANNOTATION_COLORS as readonly unknown[]).includes(value);
+}
@@ -0,0 +1,11 @@
+export {
+  ANNOTATION_COLORS,
+  ANNOTATION_COLOR_HEX,
+  isAnnotationColor
+} from "./annotation-colors";
+export type { AnnotationColor } from "./annotation-colors";
+export { postEventStream } from "./event-stream";
+export { rotateQuad } from "./page-quad";
+export type { PageQuad } from "./page-quad";
+export { tableToCsv, tableToMarkdown } from "./table-format";
+export { findTextRange } from "./text-layer-match";
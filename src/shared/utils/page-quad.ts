@@ -0,0 +1,25 @@
+/** A rectangle on a page as fractions of its size, top-left origin */
+export interface PageQuad {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Rotate a quad clockwise with its page by `rotate` degrees (a multiple of
+ * 90). Rotating by `360 - rotate` undoes it.
+ */
+export function rotateQuad(quad: PageQuad, rotate: number): PageQuad {
+  const { x, y, width, height } = quad;
+  switch (((rotate % 360) + 360) % 360) {
+    case 90:
+      return { x: 1 - y - height, y: x, width: height, height: width };
+    case 180:
+      return { x: 1 - x - width, y: 1 - y - height, width, height };
+    case 270:
+      return { x: y, y: 1 - x - width, width: height, height: width };
+    default:
+      return quad;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Render table rows (first row as header) as a GitHub-flavored Markdown table.
+ */
+export function tableToMarkdown(rows: string[][]): string {
+  const width = Math.max(0, ...rows.map((r) => r.length));
+  if (width === 0) return "";
+
+  const cell = (text: string | undefined) =>
+    (text ?? "").replace(/\|/g, "\\|").replace(/\s+/g, " ").trim();
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(" | ")} |`;
+
+  const [header = [], ...body] = rows;
+  return [
+    line(header),
+    `| ${Array.from({ length: width }, () => "---").join(" | ")} |`,
+    ...body.map(line),
+  ].join("\n");
+}
+
+/**
+ * Render table rows as CSV (RFC 4180 quoting).
+ */
+export function tableToCsv(rows: string[][]): string {
+  const field = (text: string) =>
+    /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  return rows.map((row) => row.map(field).join(",")).join("\r\n");
+}
@@ -0,0 +1,144 @@
+/**
+ * Locate a passage in a rendered text layer (e.g. react-pdf's), returning
+ * a DOM Range over the matching characters, or null when it isn't there.
+ *
+ * Matching ignores case, runs of whitespace and typographic quote/dash
+ * variants, since extracted text rarely matches the text layer exactly.
+ * When the whole passage isn't found, its first or last words are used as
+ * an anchor, so a passage that continues onto another page (or differs
+ * slightly in the middle) still gets the part on this page highlighted.
+ *
+ * Usage:
+ *   const range = findTextRange(layerElement, quote);
+ *   if (range) paint(range.getClientRects());
+ */
+export function findTextRange(root: Node, text: string): Range | null {
+  const layer = indexText(root);
+  const target = normalize(
+    text.replace(/^[\s"'“”‘’…]+|[\s"'“”‘’…]+$/g, "")
+  ).text;
+  if (!target || !layer.text) return null;
+
+  const exact = layer.text.indexOf(target);
+  if (exact !== -1) return toRange(layer, exact, exact + target.length);
+
+  // Anchor on the leading or trailing words (of the first and last parts,
+  // when the passage is elided), extending as far as its length allows
+  const parts = target.split(/\s*\.\.\.\s*/).filter(Boolean);
+  const words = target.split(" ");
+  if (parts.length === 1 && words.length < 2 * MIN_ANCHOR_WORDS) return null;
+  const count =
+    parts.length > 1
+      ? MAX_ANCHOR_WORDS
+      : Math.min(MAX_ANCHOR_WORDS, Math.floor(words.length / 2));
+  const anchor = (part: string, fromEnd: boolean) => {
+    const partWords = part.split(" ");
+    // Too short to anchor on: a string the layer can't contain
+    if (partWords.length < MIN_ANCHOR_WORDS) return "\u0000";
+    return (fromEnd ? partWords.slice(-count) : partWords.slice(0, count)).join(
+      " "
+    );
+  };
+  const head = anchor(parts[0]!, false);
+  const tail = anchor(parts[parts.length - 1]!, true);
+
+  const headAt = layer.text.indexOf(head);
+  const tailAt = layer.text.indexOf(tail, headAt === -1 ? 0 : headAt);
+  if (headAt !== -1 && tailAt !== -1 && tailAt - headAt <= target.length * 2) {
+    return toRange(layer, headAt, tailAt + tail.length);
+  }
+  if (headAt !== -1) {
+    return toRange(
+      layer,
+      headAt,
+      Math.min(layer.text.length, headAt + target.length)
+    );
+  }
+  if (tailAt !== -1) {
+    return toRange(
+      layer,
+      Math.max(0, tailAt + tail.length - target.length),
+      tailAt + tail.length
+    );
+  }
+  return null;
+}
+
+// ---------- Internals ----------
+
+/** Fewest words on each side for an anchored match */
+const MIN_ANCHOR_WORDS = 3;
+const MAX_ANCHOR_WORDS = 6;
+
+/** Normalized text, with the DOM position each character came from */
+interface IndexedText {
+  text: string;
+  positions: Array<{ node: Text; offset: number }>;
+}
+
+const EQUIVALENTS: Record<string, string> = {
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "–": "-",
+  "—": "-",
+  "­": "" // soft hyphen
+};
+
+function normalize(text: string): IndexedText {
+  return appendText({ text: "", positions: [] }, text, null);
+}
+
+/** Append `raw`, normalized, recording each character's source position */
+function appendText(
+  into: IndexedText,
+  raw: string,
+  node: Text | null
+): IndexedText {
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i]!;
+    const mapped = /\s/.test(ch)
+      ? " "
+      : (EQUIVALENTS[ch] ?? ch.normalize("NFKC").toLowerCase());
+    for (const out of mapped) {
+      // Collapse whitespace runs and drop leading whitespace
+      if (out === " " && (into.text === "" || into.text.endsWith(" "))) {
+        continue;
+      }
+      into.text += out;
+      into.positions.push({ node: node!, offset: i });
+    }
+  }
+  return into;
+}
+
+/** Every text node under `root`, with a space between separate nodes */
+function indexText(root: Node): IndexedText {
+  const indexed: IndexedText = { text: "", positions: [] };
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const textNode = node as Text;
+    if (!textNode.data) continue;
+    if (indexed.text && !indexed.text.endsWith(" ")) {
+      // Text layer spans usually omit the space between them
+      indexed.text += " ";
+      indexed.positions.push(indexed.positions[indexed.positions.length - 1]!);
+    }
+    appendText(indexed, textNode.data, textNode);
+  }
+  if (indexed.text.endsWith(" ")) {
+    indexed.text = indexed.text.slice(0, -1);
+    indexed.positions.pop();
+  }
+  return indexed;
+}
+
+function toRange(layer: IndexedText, start: number, end: number): Range {
+  const first = layer.positions[start]!;
+  const last = layer.positions[end - 1]!;
+  const range = document.createRange();
+  range.setStart(first.node, first.offset);
+  range.setEnd(last.node, last.offset + 1);
+  return range;
+}
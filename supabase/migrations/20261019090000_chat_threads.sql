@@ -0,0 +1,57 @@
+-- Persistent chat threads per document.
+-- Threads and their messages are removed with the document (ON DELETE CASCADE).
+
+create table if not exists public.chat_threads (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.documents (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null default 'New chat',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_threads_document_id_idx
+  on public.chat_threads (document_id, updated_at desc);
+
+create table if not exists public.chat_messages (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.chat_threads (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  citations jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chat_messages_thread_id_idx
+  on public.chat_messages (thread_id, created_at);
+
+-- ---------- Row Level Security ----------
+
+alter table public.chat_threads enable row level security;
+alter table public.chat_messages enable row level security;
+
+create policy "Users manage their own chat threads"
+  on public.chat_threads for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.documents d
+      where d.id = chat_threads.document_id and d.user_id = auth.uid()
+    )
+  );
+
+create policy "Users manage messages in their own threads"
+  on public.chat_messages for all
+  using (
+    exists (
+      select 1 from public.chat_threads t
+      where t.id = chat_messages.thread_id and t.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.chat_threads t
+      where t.id = chat_messages.thread_id and t.user_id = auth.uid()
+    )
+  );
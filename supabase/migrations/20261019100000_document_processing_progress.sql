@@ -0,0 +1,10 @@
+-- Persist the real stage of processDocument so the processing page can show
+-- true progress instead of a timer.
+--
+-- processing_progress: { "stage": "download" | "extract" | "chunk" | "embed" | "insert",
+--                        "current": int, "total": int, "updated_at": timestamptz }
+-- processing_error:    human-readable reason the last run failed (e.g. which batch)
+
+alter table public.documents
+  add column if not exists processing_progress jsonb,
+  add column if not exists processing_error text;
@@ -0,0 +1,86 @@
+-- Durable job queue for document processing.
+--
+-- uploadDocument enqueues a job; the worker (POST /api/jobs/worker) claims jobs
+-- with a time-limited lease, runs the pipeline, and either completes the job
+-- or schedules a retry with exponential backoff. A job whose lease expires
+-- (worker crashed / timed out) is picked up again by the sweeper.
+
+create table if not exists public.processing_jobs (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.documents (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'failed')),
+  attempts int not null default 0,
+  max_attempts int not null default 3,
+  run_at timestamptz not null default now(),
+  locked_by text,
+  lease_expires_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- At most one active job per document
+create unique index if not exists processing_jobs_active_document_idx
+  on public.processing_jobs (document_id)
+  where status in ('queued', 'running');
+
+create index if not exists processing_jobs_claim_idx
+  on public.processing_jobs (run_at)
+  where status = 'queued';
+
+-- ---------- Row Level Security ----------
+-- Users may enqueue and read jobs for their own documents. The worker uses
+-- the service role and bypasses RLS.
+
+alter table public.processing_jobs enable row level security;
+
+create policy "Users read their own processing jobs"
+  on public.processing_jobs for select
+  using (auth.uid() = user_id);
+
+create policy "Users enqueue jobs for their own documents"
+  on public.processing_jobs for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.documents d
+      where d.id = processing_jobs.document_id and d.user_id = auth.uid()
+    )
+  );
+
+-- ---------- Claiming ----------
+
+-- Atomically claim the next due job. SKIP LOCKED lets several workers run
+-- concurrently without claiming the same job.
+create or replace function public.claim_processing_job(
+  p_worker_id text,
+  p_lease_seconds int default 300
+)
+returns setof public.processing_jobs
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  update public.processing_jobs j
+  set status = 'running',
+      attempts = j.attempts + 1,
+      locked_by = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  where j.id = (
+    select q.id from public.processing_jobs q
+    where q.status = 'queued' and q.run_at <= now()
+    order by q.run_at
+    limit 1
+    for update skip locked
+  )
+  returning j.*;
+end;
+$$;
+
+revoke execute on function public.claim_processing_job(text, int)
+  from public, anon, authenticated;
@@ -0,0 +1,23 @@
+-- Make chunk storage idempotent: processDocument upserts on
+-- (document_id, chunk_index), so a retried run overwrites instead of
+-- duplicating rows.
+
+-- Remove duplicates left by earlier retries, keeping one row per index
+delete from public.document_chunks a
+using public.document_chunks b
+where a.document_id = b.document_id
+  and a.chunk_index = b.chunk_index
+  and a.ctid > b.ctid;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'document_chunks_document_id_chunk_index_key'
+      and conrelid = 'public.document_chunks'::regclass
+  ) then
+    alter table public.document_chunks
+      add constraint document_chunks_document_id_chunk_index_key
+      unique (document_id, chunk_index);
+  end if;
+end $$;
@@ -0,0 +1,4 @@
+-- Record which pages had their text recognized by the OCR fallback.
+
+alter table public.documents
+  add column if not exists ocr_pages int[];
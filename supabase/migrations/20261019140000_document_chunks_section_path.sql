@@ -0,0 +1,5 @@
+-- Headings enclosing each chunk, outermost first (e.g. {"3 Methods","3.2 Results"}).
+-- Chunks stored before heading detection keep an empty path.
+
+alter table public.document_chunks
+  add column if not exists section_path text[] not null default '{}';
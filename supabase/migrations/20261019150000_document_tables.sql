@@ -0,0 +1,37 @@
+-- Tables extracted from documents, stored as cell rows (first row = header).
+-- Each table is also indexed as one or more "table" chunks in document_chunks.
+
+create table if not exists public.document_tables (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.documents (id) on delete cascade,
+  table_index int not null,
+  page int not null,
+  caption text,
+  rows jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  unique (document_id, table_index)
+);
+
+alter table public.document_chunks
+  add column if not exists chunk_type text not null default 'text'
+    check (chunk_type in ('text', 'table')),
+  add column if not exists table_index int;
+
+-- ---------- Row Level Security ----------
+
+alter table public.document_tables enable row level security;
+
+create policy "Users manage tables of their own documents"
+  on public.document_tables for all
+  using (
+    exists (
+      select 1 from public.documents d
+      where d.id = document_tables.document_id and d.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.documents d
+      where d.id = document_tables.document_id and d.user_id = auth.uid()
+    )
+  );
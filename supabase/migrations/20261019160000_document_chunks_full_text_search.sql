@@ -0,0 +1,74 @@
+-- Full-text search over chunk content, the keyword leg of hybrid search.
+
+alter table public.document_chunks
+  add column if not exists content_tsv tsvector
+    generated always as (to_tsvector('english', coalesce(content, ''))) stored;
+
+create index if not exists document_chunks_content_tsv_idx
+  on public.document_chunks using gin (content_tsv);
+
+-- websearch_to_tsquery() with its top-level terms OR-ed instead of AND-ed,
+-- so long natural-language queries still match. Quoted phrases stay
+-- phrases and negated terms (-word) still exclude. Null when the query has
+-- no positive terms.
+create or replace function public.websearch_to_any_tsquery(search_query text)
+returns tsquery
+language sql
+stable
+as $$
+  with parts as (
+    select part, part like '!%' and part not like '% | %' as negated
+    from regexp_split_to_table(
+      websearch_to_tsquery('english', search_query)::text, ' & '
+    ) as part
+    where part <> ''
+  )
+  select case
+    when count(*) filter (where not negated) = 0 then null
+    else (
+      '(' || string_agg(part, ' | ') filter (where not negated) || ')'
+      || coalesce(' & ' || string_agg(part, ' & ') filter (where negated), '')
+    )::tsquery
+  end
+  from parts;
+$$;
+
+-- Rank a document's chunks against a search query. Terms are OR-ed (see
+-- above); chunks matching more (and rarer, closer together) terms rank
+-- higher.
+-- Runs as the caller, so RLS limits results to the user's own documents.
+create or replace function public.keyword_search_document_chunks(
+  search_query text,
+  target_document_id uuid,
+  match_count int default 8
+)
+returns table (
+  id uuid,
+  chunk_index int,
+  content text,
+  page_start int,
+  page_end int,
+  token_count int,
+  rank real
+)
+language sql
+stable
+as $$
+  with q as (
+    select public.websearch_to_any_tsquery(search_query) as query
+  )
+  select
+    c.id::uuid,
+    c.chunk_index::int,
+    c.content,
+    c.page_start::int,
+    c.page_end::int,
+    c.token_count::int,
+    ts_rank_cd(c.content_tsv, q.query, 32) as rank
+  from public.document_chunks c, q
+  where c.document_id = target_document_id
+    and q.query is not null
+    and c.content_tsv @@ q.query
+  order by rank desc, c.chunk_index
+  limit match_count;
+$$;
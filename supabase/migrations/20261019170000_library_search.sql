@@ -0,0 +1,84 @@
+-- Library-wide search: the same vector and keyword legs as the per-document
+-- RPCs, over every ready document the caller owns (or a chosen subset).
+-- Ownership is checked explicitly against auth.uid() as well as through RLS.
+
+create or replace function public.match_library_chunks(
+  query_embedding vector,
+  document_ids uuid[] default null,
+  match_threshold float default 0.3,
+  match_count int default 20
+)
+returns table (
+  id uuid,
+  document_id uuid,
+  chunk_index int,
+  content text,
+  page_start int,
+  page_end int,
+  token_count int,
+  similarity float
+)
+language sql
+stable
+as $$
+  select
+    c.id::uuid,
+    c.document_id::uuid,
+    c.chunk_index::int,
+    c.content,
+    c.page_start::int,
+    c.page_end::int,
+    c.token_count::int,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from public.document_chunks c
+  join public.documents d on d.id = c.document_id
+  where d.user_id = auth.uid()
+    and d.status = 'ready'
+    and (document_ids is null or d.id = any (document_ids))
+    and c.embedding is not null
+    and 1 - (c.embedding <=> query_embedding) > match_threshold
+  order by c.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+create or replace function public.keyword_search_library_chunks(
+  search_query text,
+  document_ids uuid[] default null,
+  match_count int default 20
+)
+returns table (
+  id uuid,
+  document_id uuid,
+  chunk_index int,
+  content text,
+  page_start int,
+  page_end int,
+  token_count int,
+  rank real
+)
+language sql
+stable
+as $$
+  with q as (
+    select public.websearch_to_any_tsquery(search_query) as query
+  )
+  select
+    c.id::uuid,
+    c.document_id::uuid,
+    c.chunk_index::int,
+    c.content,
+    c.page_start::int,
+    c.page_end::int,
+    c.token_count::int,
+    ts_rank_cd(c.content_tsv, q.query, 32) as rank
+  from public.document_chunks c
+  join public.documents d on d.id = c.document_id
+  cross join q
+  where d.user_id = auth.uid()
+    and d.status = 'ready'
+    and (document_ids is null or d.id = any (document_ids))
+    and q.query is not null
+    and c.content_tsv @@ q.query
+  order by rank desc, c.document_id, c.chunk_index
+  limit match_count;
+$$;
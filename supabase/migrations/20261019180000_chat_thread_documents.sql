@@ -0,0 +1,10 @@
+-- Chats that span several documents. `document_id` stays the document the
+-- thread was started from; `document_ids` lists the other documents it
+-- retrieves from. Single-document threads keep an empty list.
+
+alter table public.chat_threads
+  add column if not exists document_ids uuid[] not null default '{}';
+
+-- Lets a document's thread list include threads it was added to
+create index if not exists chat_threads_document_ids_idx
+  on public.chat_threads using gin (document_ids);
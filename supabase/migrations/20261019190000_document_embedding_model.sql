@@ -0,0 +1,15 @@
+-- The embedding model and vector size each document's chunks were embedded
+-- with, so switching embedding providers can be detected per document.
+-- Documents embedded so far all used Gemini's gemini-embedding-001 at 768.
+
+alter table public.documents
+  add column if not exists embedding_model text,
+  add column if not exists embedding_dims int;
+
+update public.documents d
+set embedding_model = 'gemini-embedding-001', embedding_dims = 768
+where d.embedding_model is null
+  and exists (
+    select 1 from public.document_chunks c
+    where c.document_id = d.id and c.embedding is not null
+  );
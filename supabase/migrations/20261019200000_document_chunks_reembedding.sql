@@ -0,0 +1,103 @@
+-- Re-embedding documents with a new embedding model. New vectors are
+-- written to next_embedding beside the live ones, which keep serving
+-- searches until switch_document_embeddings swaps them in. The column has
+-- no fixed size so vectors of any dimension can be staged; moving to a new
+-- dimension still needs `embedding` (and its HNSW index) altered to match
+-- first, or the switch fails and rolls back.
+
+alter table public.document_chunks
+  add column if not exists next_embedding vector;
+
+alter table public.documents
+  add column if not exists next_embedding_model text,
+  add column if not exists next_embedding_dims int;
+
+-- Swap a document's staged vectors in and record their model, in one
+-- transaction. Refuses while any chunk is still missing a new vector.
+create or replace function public.switch_document_embeddings(
+  target_document_id uuid
+)
+returns void
+language plpgsql
+as $$
+declare
+  target record;
+begin
+  select next_embedding_model, next_embedding_dims
+  into target
+  from public.documents
+  where id = target_document_id
+  for update;
+
+  if target.next_embedding_model is null then
+    raise exception 'Document % has no re-embedding in progress', target_document_id;
+  end if;
+
+  if exists (
+    select 1 from public.document_chunks
+    where document_id = target_document_id and next_embedding is null
+  ) then
+    raise exception 'Document % has chunks without new embeddings', target_document_id;
+  end if;
+
+  update public.document_chunks
+  set embedding = next_embedding, next_embedding = null
+  where document_id = target_document_id;
+
+  update public.documents
+  set embedding_model = target.next_embedding_model,
+      embedding_dims = target.next_embedding_dims,
+      next_embedding_model = null,
+      next_embedding_dims = null
+  where id = target_document_id;
+end;
+$$;
+
+-- Library search compares one query vector against every document, so it
+-- now only considers documents embedded with the query's model.
+drop function if exists public.match_library_chunks(vector, uuid[], float, int);
+
+create or replace function public.match_library_chunks(
+  query_embedding vector,
+  document_ids uuid[] default null,
+  match_threshold float default 0.3,
+  match_count int default 20,
+  query_embedding_model text default null
+)
+returns table (
+  id uuid,
+  document_id uuid,
+  chunk_index int,
+  content text,
+  page_start int,
+  page_end int,
+  token_count int,
+  similarity float
+)
+language sql
+stable
+as $$
+  select
+    c.id::uuid,
+    c.document_id::uuid,
+    c.chunk_index::int,
+    c.content,
+    c.page_start::int,
+    c.page_end::int,
+    c.token_count::int,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from public.document_chunks c
+  join public.documents d on d.id = c.document_id
+  where d.user_id = auth.uid()
+    and d.status = 'ready'
+    and (document_ids is null or d.id = any (document_ids))
+    and (
+      query_embedding_model is null
+      or d.embedding_model is null
+      or d.embedding_model = query_embedding_model
+    )
+    and c.embedding is not null
+    and 1 - (c.embedding <=> query_embedding) > match_threshold
+  order by c.embedding <=> query_embedding
+  limit match_count;
+$$;
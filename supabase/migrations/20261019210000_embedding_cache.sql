@@ -0,0 +1,20 @@
+-- Embeddings cached by content hash, shared across documents, users and
+-- server instances: identical text embedded with the same model, size and
+-- task type always yields the same vector. The vector column has no fixed
+-- size so any embedding model can be cached.
+
+create table if not exists public.embedding_cache (
+  model text not null,
+  dims int not null,
+  task_type text not null check (task_type in ('RETRIEVAL_DOCUMENT', 'RETRIEVAL_QUERY')),
+  text_hash text not null, -- sha256 of the text, hex
+  embedding vector not null,
+  created_at timestamptz not null default now(),
+  primary key (model, dims, task_type, text_hash)
+);
+
+-- ---------- Row Level Security ----------
+-- No policies: only the service role reads and writes the cache, so users
+-- can't probe which texts others have embedded.
+
+alter table public.embedding_cache enable row level security;
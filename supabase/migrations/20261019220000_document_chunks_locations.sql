@@ -0,0 +1,10 @@
+-- Where each chunk's text sits on the pages it spans, one entry per page:
+--   {"page": 3, "start": 1200, "end": 2950,
+--    "boxes": [{"x": 0.12, "y": 0.31, "width": 0.36, "height": 0.014}, ...]}
+-- start/end are character offsets into the page's extracted text (null for
+-- table chunks, which are kept out of it); boxes are line regions as
+-- fractions of the page size, top-left origin, empty for OCR'd pages.
+-- Chunks stored before locations were recorded keep null until reprocessed.
+
+alter table public.document_chunks
+  add column if not exists locations jsonb;
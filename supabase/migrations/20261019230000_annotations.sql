@@ -0,0 +1,39 @@
+-- Highlights and notes users add to their documents. Each annotation marks
+-- text selected on one page; quads are the selection's line rectangles as
+-- fractions of the page as displayed (its own /Rotate applied, not the
+-- viewer's rotation), top-left origin:
+--   [{"x": 0.12, "y": 0.31, "width": 0.36, "height": 0.014}, ...]
+-- Annotations are removed with the document (ON DELETE CASCADE).
+
+create table if not exists public.annotations (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.documents (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  page int not null check (page >= 1),
+  quads jsonb not null default '[]'::jsonb,
+  text text not null default '',
+  color text not null default 'yellow'
+    check (color in ('yellow', 'green', 'blue', 'pink', 'purple')),
+  note text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists annotations_document_id_idx
+  on public.annotations (document_id, page, created_at);
+
+-- ---------- Row Level Security ----------
+
+alter table public.annotations enable row level security;
+
+-- Only the owner sees their annotations, and only on their own documents
+create policy "Users manage their own annotations"
+  on public.annotations for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.documents d
+      where d.id = annotations.document_id and d.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,32 @@
+-- Deleting a document takes it out of every thread that had it added.
+-- Threads started from the document already go with it (ON DELETE
+-- CASCADE); this covers `document_ids`, which has no foreign key to do so.
+
+create or replace function public.remove_document_from_threads()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.chat_threads
+  set document_ids = array_remove(document_ids, old.id)
+  where document_ids @> array[old.id];
+  return old;
+end;
+$$;
+
+drop trigger if exists documents_remove_from_threads on public.documents;
+
+create trigger documents_remove_from_threads
+  after delete on public.documents
+  for each row execute function public.remove_document_from_threads();
+
+-- Threads left pointing at documents deleted before this migration
+update public.chat_threads t
+set document_ids = array(
+  select u.id from unnest(t.document_ids) as u (id)
+  where exists (select 1 from public.documents d where d.id = u.id)
+)
+where exists (
+  select 1 from unnest(t.document_ids) as u (id)
+  where not exists (select 1 from public.documents d where d.id = u.id)
+);